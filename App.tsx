@@ -1,50 +1,172 @@
-import React, { useState } from 'react';
-import { Search, Video, FileText, MessageSquare, PenTool, LayoutGrid, Globe, ArrowRight, AlertCircle, Loader2, Server, Download, CloudLightning, Bot, Info, Mic, Youtube } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Search, Video, FileText, MessageSquare, PenTool, GraduationCap, LayoutGrid, Globe, ArrowRight, AlertCircle, Loader2, Server, CloudLightning, Info, Youtube } from 'lucide-react';
 import Timeline from './components/Timeline';
 import HighlightList from './components/HighlightList';
 import ChatInterface from './components/ChatInterface';
-import { TabOption, VideoData, TranscriptSegment } from './types';
-import { initializeChat } from './services/geminiService';
-import { analyzeVideo } from './services/api';
+import VideoPlayer from './components/VideoPlayer';
+import TranscriptPanel from './components/TranscriptPanel';
+import NotesPanel, { NoteDraft } from './components/NotesPanel';
+import StudyPanel from './components/StudyPanel';
+import SummaryPanel from './components/SummaryPanel';
+import LibraryPanel from './components/LibraryPanel';
+import { TabOption, VideoData, TranscriptSegment, Note, AnalysisProgress, AnalysisStage, LibraryEntry, Highlight, HighlightEdit, TranscriptCorrection } from './types';
+import { analyzeVideo, importSubtitles, generateHighlights, getCacheId, exportClips, ClipOptions, GeneratedContent } from './services/api';
+import { PlayerAdapter } from './services/player';
+import { formatTime } from './utils/time';
+import { downloadFile, downloadUrl } from './utils/download';
+import { listNotes, saveNote, deleteNote } from './services/notesStore';
+import { libraryKey, saveLibraryVideo } from './services/libraryStore';
+import { loadHighlightEdits, saveHighlightEdits } from './services/highlightStore';
+import { correctionApplies, createCorrection, deleteTranscriptCorrection, loadTranscriptCorrection, saveTranscriptCorrection } from './services/transcriptStore';
+import { listGlossary } from './services/glossaryStore';
+import { HighlightChange, applyHighlightEdits, createHighlight, recordEdits } from './utils/highlightEdits';
+import { isSameTranscript } from './utils/transcriptEdits';
+import { EXPORT_FORMATS, ExportFormat, serializeTranscript } from './services/transcriptExport';
+
+// Shown as a stepper on the loading screen, in pipeline order
+const ANALYSIS_STAGES: { stage: AnalysisStage; label: string }[] = [
+  { stage: 'metadata', label: 'Metadata' },
+  { stage: 'subtitles', label: 'Subtitles' },
+  { stage: 'download', label: 'Audio' },
+  { stage: 'transcription', label: 'Transcription' },
+  { stage: 'highlights', label: 'Highlights' },
+];
 
 function App() {
   const [url, setUrl] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [loadingStep, setLoadingStep] = useState('');
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [videoData, setVideoData] = useState<VideoData | null>(null);
   const [dataSource, setDataSource] = useState<'backend' | 'ai-simulated'>('ai-simulated');
   const [activeTab, setActiveTab] = useState<TabOption>(TabOption.TRANSCRIPT);
   const [currentTime, setCurrentTime] = useState(0);
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [noteDraft, setNoteDraft] = useState<NoteDraft | null>(null);
+  const [searchHits, setSearchHits] = useState<number[]>([]);
+  const [highlightEdits, setHighlightEdits] = useState<HighlightEdit[]>([]);
+  const [correction, setCorrection] = useState<TranscriptCorrection | null>(null);
+
+  // Adapter for the embedded player (YouTube IFrame API / Bilibili postMessage)
+  const playerRef = React.useRef<PlayerAdapter | null>(null);
+  const analysisAbortRef = React.useRef<AbortController | null>(null);
+  // Where to start a video opened from a library search result, applied once its player is ready
+  const pendingSeekRef = React.useRef<number | null>(null);
+  // Library key of the open video, to tell opening a video from editing it
+  const openLibraryKeyRef = React.useRef<string | null>(null);
+
+  // Load the saved notes for the open video
+  useEffect(() => {
+    setNotes([]);
+    setNoteDraft(null);
+    if (!videoData) return;
+    let cancelled = false;
+    listNotes(videoData.platform, videoData.bvid, videoData.page)
+      .then(saved => { if (!cancelled) setNotes(saved); })
+      .catch(err => console.warn("Failed to load notes.", err));
+    return () => { cancelled = true; };
+  }, [videoData?.platform, videoData?.bvid, videoData?.page]);
+
+  // Load the user's chapter edits for the open video
+  useEffect(() => {
+    setHighlightEdits([]);
+    if (!videoData) return;
+    let cancelled = false;
+    loadHighlightEdits(videoData)
+      .then(edits => { if (!cancelled) setHighlightEdits(edits); })
+      .catch(err => console.warn("Failed to load chapter edits.", err));
+    return () => { cancelled = true; };
+  }, [videoData?.platform, videoData?.bvid, videoData?.page]);
+
+  // Load the user's corrected transcript for the open video
+  useEffect(() => {
+    setCorrection(null);
+    if (!videoData) return;
+    let cancelled = false;
+    loadTranscriptCorrection(videoData)
+      .then(saved => { if (!cancelled) setCorrection(saved ?? null); })
+      .catch(err => console.warn("Failed to load the transcript correction.", err));
+    return () => { cancelled = true; };
+  }, [videoData?.platform, videoData?.bvid, videoData?.page]);
+
+  // What the workspace shows: the generated highlights with the user's edits on top,
+  // and the corrected transcript instead of the original one
+  const highlights = useMemo(
+    () => (videoData ? applyHighlightEdits(videoData.highlights, highlightEdits) : []),
+    [videoData?.highlights, highlightEdits]
+  );
+  const video = useMemo((): VideoData | null => {
+    if (!videoData) return null;
+    const corrected = !!correction && correctionApplies(correction, videoData);
+    return {
+      ...videoData,
+      highlights,
+      transcript: corrected ? correction!.transcript : videoData.transcript,
+      isTranscriptCorrected: corrected,
+    };
+  }, [videoData, highlights, correction]);
 
-  // Ref for YouTube player control (simulated)
-  const playerRef = React.useRef<HTMLIFrameElement>(null);
+  // Every analyzed video is kept in the library; later edits (imports, summaries) update its entry
+  useEffect(() => {
+    if (!videoData) {
+      openLibraryKeyRef.current = null;
+      return;
+    }
+    const key = libraryKey(videoData);
+    const opened = key !== openLibraryKeyRef.current;
+    openLibraryKeyRef.current = key;
+    saveLibraryVideo(videoData, { source: dataSource, opened })
+      .catch(err => console.warn("Failed to save the video to the library.", err));
+  }, [videoData]);
 
-  const handleAnalyze = async () => {
-    if (!url.trim()) return;
+  const handleAnalyze = async (targetUrl: string = url) => {
+    if (!targetUrl.trim()) return;
+    setUrl(targetUrl);
     
     setError(null);
     setVideoData(null);
     setIsLoading(true);
-    setLoadingStep("Connecting to analysis service...");
+    setProgress(null);
 
-    const loadingTimer = setTimeout(() => {
-        setLoadingStep("Downloading content & Transcribing (this may take 30s)...");
-    }, 2000);
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
 
     try {
-      const result = await analyzeVideo(url);
+      const glossary = await listGlossary().catch(() => []);
+      const result = await analyzeVideo(targetUrl, { onProgress: setProgress, signal: controller.signal, glossary });
       setVideoData(result.data);
       setDataSource(result.source);
-      initializeChat(result.data.transcript);
     } catch (err: any) {
-      setError(err.message || "An unexpected error occurred. Please check the URL.");
+      // Cancelling just returns to the landing page
+      if (!controller.signal.aborted) {
+        setError(err.message || "An unexpected error occurred. Please check the URL.");
+      }
     } finally {
-      clearTimeout(loadingTimer);
+      analysisAbortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  // Each part of a multi-part video is analyzed on its own
+  const handleSelectPart = (page: number) => {
+    if (!videoData) return;
+    setCurrentTime(0);
+    handleAnalyze(`https://www.bilibili.com/video/${videoData.bvid}?p=${page}`);
+  };
+
+  // Library videos already hold everything the workspace needs
+  const handleOpenFromLibrary = (entry: LibraryEntry, time?: number) => {
+    setError(null);
+    setCurrentTime(time ?? 0);
+    pendingSeekRef.current = time ?? null;
+    setDataSource(entry.source);
+    setVideoData(entry.video);
+  };
+
+  const handleCancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
   const handleLucky = () => {
       // YouTube Lucky Link
       setUrl("https://www.youtube.com/watch?v=kYJyrUq4w4s"); 
@@ -52,26 +174,146 @@ function App() {
 
   const handleSeek = (time: number) => {
     setCurrentTime(time);
-    // Note: Controlling iframe seek from outside usually requires postMessage API or platform specific JS SDKs.
-    // For this demo, we update the state which triggers re-render of iframe source with start time, 
-    // or we just visually update the timeline. A full implementation would use the YouTube IFrame API.
+    playerRef.current?.seek(time);
+    playerRef.current?.play();
+  };
+
+  const handlePlayerReady = (player: PlayerAdapter | null) => {
+    playerRef.current = player;
+    if (player && pendingSeekRef.current !== null) {
+      player.seek(pendingSeekRef.current);
+      pendingSeekRef.current = null;
+    }
+  };
+
+  const handleQuoteToNote = (time: number, quote: string) => {
+    setNoteDraft({ timestamp: time, text: '', quote });
+    setActiveTab(TabOption.NOTES);
+  };
+
+  const handleSaveNote = async (draft: NoteDraft) => {
+    if (!videoData) return;
+    const now = Date.now();
+    const existing = notes.find(n => n.id === draft.id);
+    const note: Note = {
+      id: existing?.id ?? now.toString(),
+      platform: videoData.platform,
+      bvid: videoData.bvid,
+      page: videoData.page,
+      timestamp: draft.timestamp,
+      text: draft.text,
+      quote: draft.quote,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+    try {
+      await saveNote(note);
+      setNotes(prev => [...prev.filter(n => n.id !== note.id), note].sort((a, b) => a.timestamp - b.timestamp));
+      setNoteDraft(null);
+    } catch (err) {
+      console.error("Failed to save note:", err);
+    }
+  };
+
+  const handleDeleteNote = async (id: string) => {
+    try {
+      await deleteNote(id);
+      setNotes(prev => prev.filter(n => n.id !== id));
+    } catch (err) {
+      console.error("Failed to delete note:", err);
+    }
+  };
+
+  const handleEditTranscript = (transcript: TranscriptSegment[]) => {
+    if (!videoData) return;
+    // Undoing every change leaves nothing to keep; the segments shouldn't stay marked as edited
+    if (isSameTranscript(transcript, videoData.transcript)) {
+      handleRevertTranscript();
+      return;
+    }
+    const next = createCorrection(videoData, transcript);
+    setCorrection(next);
+    saveTranscriptCorrection(next).catch(err => console.error("Failed to save the transcript correction:", err));
+  };
+
+  const handleRevertTranscript = () => {
+    if (!videoData) return;
+    setCorrection(null);
+    deleteTranscriptCorrection(videoData).catch(err => console.error("Failed to delete the transcript correction:", err));
   };
 
-  const handleDownloadTranscript = () => {
+  const handleImportSubtitles = async (file: File) => {
     if (!videoData) return;
-    const content = videoData.transcript.map(t => `${t.timestamp} - ${t.text}`).join('\n');
-    const blob = new Blob([content], { type: 'text/plain' });
-    const u = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = u;
-    a.download = `${videoData.title.substring(0, 10)}_transcript.txt`;
-    a.click();
-    URL.revokeObjectURL(u);
+    const imported = await importSubtitles(videoData, file);
+    // A correction of an earlier import doesn't describe this one
+    if (correction?.source === 'imported') handleRevertTranscript();
+    let generated: GeneratedContent = { highlights: [] };
+    try {
+      generated = await generateHighlights(videoData, imported.transcript);
+    } catch (err) {
+      console.warn("Failed to regenerate highlights.", err);
+    }
+    const updated: VideoData = {
+      ...videoData,
+      transcript: imported.transcript,
+      // Keep the previous chapters and questions if regeneration failed
+      highlights: generated.highlights.length > 0 ? generated.highlights : videoData.highlights,
+      suggestedQuestions: generated.suggestedQuestions?.length ? generated.suggestedQuestions : videoData.suggestedQuestions,
+      // The summary described the old transcript
+      summary: null,
+      isTranscriptSimulated: false,
+      isAiTranscribed: false,
+      subtitleSource: imported.subtitleSource,
+      activeTrackId: undefined
+    };
+    setVideoData(updated);
+  };
+
+  const handleSelectTrack = (trackId: string) => {
+    const track = videoData?.subtitleTracks?.find(t => t.id === trackId);
+    if (!videoData || !track) return;
+    // Same video timing, so the highlights still apply
+    const updated: VideoData = { ...videoData, transcript: track.transcript, activeTrackId: track.id, subtitleSource: track.isAi ? 'asr' : 'official' };
+    setVideoData(updated);
+  };
+
+  const updateHighlightEdits = (edits: HighlightEdit[]) => {
+    if (!videoData) return;
+    setHighlightEdits(edits);
+    saveHighlightEdits(videoData, edits).catch(err => console.error("Failed to save chapter edits:", err));
+  };
+
+  const handleHighlightsChange = (change: HighlightChange) => {
+    if (!videoData) return;
+    updateHighlightEdits(recordEdits(highlightEdits, videoData.highlights, change));
+  };
+
+  const handleCreateHighlight = (startTime: number, endTime: number, text: string) => {
+    if (!videoData) return;
+    const firstLine = text.split('\n')[0].trim();
+    const title = firstLine.length > 40 ? `${firstLine.slice(0, 40)}…` : firstLine;
+    handleHighlightsChange(createHighlight(highlights, { title, startTime, endTime, duration: videoData.duration }));
+  };
+
+  const handleDownloadTranscript = (format: ExportFormat) => {
+    if (!video) return;
+    const content = serializeTranscript(video, format);
+    const { mimeType } = EXPORT_FORMATS.find(f => f.format === format)!;
+    downloadFile(`${video.title.substring(0, 10)}_transcript.${format}`, content, mimeType);
+  };
+
+  const handleExportClips = async (highlights: Highlight[], options: ClipOptions) => {
+    if (!video) return;
+    const clips = await exportClips(video, highlights, options);
+    clips.forEach(clip => {
+      downloadUrl(clip.url, clip.filename);
+      if (clip.subtitlesUrl) downloadUrl(clip.subtitlesUrl, clip.filename.replace(/\.\w+$/, '.srt'));
+    });
   };
 
   if (!videoData && !isLoading) {
     return (
-      <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-white relative overflow-hidden">
+      <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-white relative overflow-x-hidden">
         <div className="absolute top-6 right-6 z-10">
             <button className="bg-black text-white px-6 py-2 rounded-full font-medium text-sm hover:bg-gray-800 transition">Sign In</button>
         </div>
@@ -127,16 +369,22 @@ function App() {
                  <div>
                     <h3 className="font-semibold text-gray-900">NotebookLLM Style Parsing</h3>
                     <p className="text-sm text-gray-500 mt-1">
-                        We fetch metadata and official subtitles. If missing, we <strong>download the audio</strong> and use Gemini 1.5 Flash to generate a high-quality transcript.
+                        We fetch metadata and official subtitles. If missing, we <strong>download the audio</strong> and have your configured AI model generate a high-quality transcript.
                     </p>
                  </div>
             </div>
         </div>
+
+        <div className="max-w-3xl w-full mt-12 mb-8 relative z-10">
+            <LibraryPanel onOpen={handleOpenFromLibrary} />
+        </div>
       </div>
     );
   }
 
   if (isLoading) {
+    const activeStageIndex = ANALYSIS_STAGES.findIndex(s => s.stage === progress?.stage);
+    const hasFraction = progress?.total !== undefined && progress.current !== undefined;
     return (
         <div className="min-h-screen flex flex-col items-center justify-center bg-white">
             <div className="relative">
@@ -146,7 +394,39 @@ function App() {
                 </div>
             </div>
             <h2 className="text-gray-900 font-medium mt-6 text-lg">Parsing Video</h2>
-            <p className="text-gray-500 text-sm mt-2 animate-pulse">{loadingStep}</p>
+            <p className="text-gray-500 text-sm mt-2 animate-pulse">{progress?.message ?? "Starting..."}</p>
+
+            {/* Stage Stepper */}
+            <div className="flex items-center gap-2 mt-6">
+                {ANALYSIS_STAGES.map(({ stage, label }, index) => (
+                    <div
+                        key={stage}
+                        className={`text-xs px-2.5 py-1 rounded-full border ${
+                            index === activeStageIndex ? 'bg-blue-50 text-blue-700 border-blue-200' :
+                            index < activeStageIndex ? 'bg-gray-50 text-gray-500 border-gray-200' :
+                            'text-gray-300 border-gray-100'
+                        }`}
+                    >
+                        {label}
+                    </div>
+                ))}
+            </div>
+
+            {hasFraction && (
+                <div className="w-64 h-1.5 bg-gray-100 rounded-full overflow-hidden mt-4">
+                    <div
+                        className="h-full bg-blue-600 transition-all duration-300"
+                        style={{ width: `${Math.min(100, (progress!.current! / progress!.total!) * 100)}%` }}
+                    />
+                </div>
+            )}
+
+            <button
+                onClick={handleCancelAnalysis}
+                className="mt-8 px-5 py-2 border border-gray-200 text-gray-600 text-sm rounded-full hover:bg-gray-50 transition"
+            >
+                Cancel
+            </button>
         </div>
     );
   }
@@ -189,25 +469,14 @@ function App() {
                 
                 {/* Video Player Container */}
                 <div className="w-full aspect-video bg-black rounded-2xl overflow-hidden shadow-sm relative group">
-                    {videoData?.platform === 'youtube' ? (
-                        <iframe
-                            ref={playerRef}
-                            src={`https://www.youtube.com/embed/${videoData.bvid}?start=${Math.floor(currentTime)}&autoplay=1`}
-                            className="w-full h-full"
-                            frameBorder="0"
-                            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                            allowFullScreen
-                            title="YouTube video player"
-                        ></iframe>
-                    ) : (
-                        <iframe
-                            id="bili-player"
-                            src={`//player.bilibili.com/player.html?bvid=${videoData?.bvid}&page=1&high_quality=1&danmaku=0&t=${currentTime}`}
-                            className="w-full h-full"
-                            scrolling="no"
-                            frameBorder="0"
-                            allowFullScreen
-                        ></iframe>
+                    {videoData && (
+                        <VideoPlayer
+                            platform={videoData.platform}
+                            videoId={videoData.bvid}
+                            page={videoData.page}
+                            onReady={handlePlayerReady}
+                            onTimeUpdate={setCurrentTime}
+                        />
                     )}
                 </div>
 
@@ -222,6 +491,20 @@ function App() {
                             </div>
                             <p className="text-sm text-gray-500 mt-1">Author: {videoData?.author}</p>
                         </div>
+                        {videoData?.pages && videoData.pages.length > 1 && (
+                            <select
+                                value={videoData.page ?? 1}
+                                onChange={(e) => handleSelectPart(Number(e.target.value))}
+                                className="max-w-[260px] text-sm px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-100"
+                                title="Select part"
+                            >
+                                {videoData.pages.map(p => (
+                                    <option key={p.cid} value={p.page}>
+                                        P{p.page} · {p.part} ({formatTime(p.duration)})
+                                    </option>
+                                ))}
+                            </select>
+                        )}
                      </div>
 
                     {/* Colored Timeline */}
@@ -229,16 +512,44 @@ function App() {
                         {videoData && (
                             <Timeline 
                                 duration={videoData.duration} 
-                                highlights={videoData.highlights} 
+                                highlights={highlights} 
+                                currentTime={currentTime}
+                                notes={notes}
+                                searchHits={searchHits}
                                 onSeek={handleSeek} 
+                                onHighlightsChange={handleHighlightsChange}
                             />
                         )}
                     </div>
 
                     {/* Highlight List */}
                     <div className="mt-6 bg-white rounded-2xl p-2 shadow-sm border border-gray-100">
-                         {videoData && <HighlightList highlights={videoData.highlights} onSeek={handleSeek} />}
+                         {videoData && (
+                            <HighlightList
+                                highlights={highlights}
+                                currentTime={currentTime}
+                                onSeek={handleSeek}
+                                onExport={handleExportClips}
+                                duration={videoData.duration}
+                                onChange={handleHighlightsChange}
+                                onResetEdits={() => updateHighlightEdits([])}
+                                isEdited={highlightEdits.length > 0}
+                            />
+                         )}
                     </div>
+
+                    {/* Summary */}
+                    {video && (
+                        <div className="mt-6 bg-white rounded-2xl p-5 shadow-sm border border-gray-100">
+                            <SummaryPanel
+                                video={video}
+                                onSeek={handleSeek}
+                                onGenerated={(summary) => setVideoData(prev =>
+                                    prev && prev.platform === videoData.platform && getCacheId(prev) === getCacheId(videoData) ? { ...prev, summary } : prev
+                                )}
+                            />
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -247,11 +558,11 @@ function App() {
                 
                 {/* Sidebar Tabs */}
                 <div className="flex items-center p-2 gap-1 border-b border-gray-50 m-2 bg-gray-50/50 rounded-xl">
-                    {[TabOption.TRANSCRIPT, TabOption.CHAT, TabOption.NOTES].map((tab) => (
+                    {[TabOption.TRANSCRIPT, TabOption.CHAT, TabOption.NOTES, TabOption.STUDY].map((tab) => (
                         <button
                             key={tab}
                             onClick={() => setActiveTab(tab)}
-                            className={`flex-1 flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-lg transition-all duration-200 ${
+                            className={`flex-1 flex items-center justify-center gap-1.5 py-2 text-sm font-medium rounded-lg transition-all duration-200 ${
                                 activeTab === tab 
                                 ? 'bg-white text-blue-600 shadow-sm' 
                                 : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100/50'
@@ -260,6 +571,7 @@ function App() {
                             {tab === TabOption.TRANSCRIPT && <FileText size={16} />}
                             {tab === TabOption.CHAT && <MessageSquare size={16} />}
                             {tab === TabOption.NOTES && <PenTool size={16} />}
+                            {tab === TabOption.STUDY && <GraduationCap size={16} />}
                             {tab}
                         </button>
                     ))}
@@ -267,88 +579,48 @@ function App() {
 
                 {/* Sidebar Content */}
                 <div className="flex-1 overflow-hidden p-4 relative">
-                    {activeTab === TabOption.TRANSCRIPT && videoData && (
-                        <div className="h-full overflow-y-auto custom-scrollbar pr-2 space-y-6">
-                             {/* Tools Row */}
-                             <div className="flex items-center justify-between mb-4 sticky top-0 bg-white/90 backdrop-blur-sm py-2 z-10">
-                                <div className="flex items-center gap-2">
-                                    <span className={`w-2 h-2 rounded-full ${
-                                        videoData.isTranscriptSimulated ? 'bg-amber-400' :
-                                        videoData.isAiTranscribed ? 'bg-purple-500' : 
-                                        'bg-green-400'
-                                    }`}></span>
-                                    <Search size={14} className="text-gray-400"/>
-                                    {videoData.isAiTranscribed && (
-                                        <span className="text-[10px] bg-purple-100 text-purple-700 border border-purple-200 px-1.5 py-0.5 rounded">
-                                            AI Transcribed
-                                        </span>
-                                    )}
-                                </div>
-                                <div className="flex gap-2">
-                                    <button 
-                                        onClick={handleDownloadTranscript}
-                                        className="flex items-center gap-1 px-3 py-1 border border-gray-200 text-gray-600 text-xs rounded-full hover:bg-gray-50 transition-colors"
-                                        title="Download Transcript"
-                                    >
-                                        <Download size={12} />
-                                        Export
-                                    </button>
-                                </div>
-                             </div>
-                             
-                             {/* Status Banners */}
-                             {videoData.isTranscriptSimulated && (
-                                <div className="bg-amber-50 border border-amber-100 rounded-lg p-3 text-xs text-amber-800 flex items-start gap-2">
-                                    <Bot size={14} className="mt-0.5 flex-shrink-0" />
-                                    <p>Official subtitles unavailable. This transcript is a simulation generated by AI based on video metadata.</p>
-                                </div>
-                             )}
-
-                             {videoData.isAiTranscribed && (
-                                <div className="bg-purple-50 border border-purple-100 rounded-lg p-3 text-xs text-purple-800 flex items-start gap-2">
-                                    <Mic size={14} className="mt-0.5 flex-shrink-0" />
-                                    <p>No official subtitles found. This transcript was generated by AI listening to the video audio.</p>
-                                </div>
-                             )}
-
-                             <div className="space-y-6">
-                                {videoData.transcript.length > 0 ? (
-                                    videoData.transcript.map((item) => (
-                                        <div key={item.id} className="group hover:bg-blue-50/50 p-2 rounded-lg -mx-2 transition-colors cursor-pointer" onClick={() => handleSeek(item.startTime)}>
-                                            <div className="flex gap-3">
-                                                <span className={`text-xs font-mono opacity-0 group-hover:opacity-100 transition-opacity mt-1 ${
-                                                    videoData.isTranscriptSimulated ? 'text-amber-500' : 
-                                                    videoData.isAiTranscribed ? 'text-purple-500' :
-                                                    'text-blue-500'
-                                                }`}>{item.timestamp}</span>
-                                                <p className="text-sm text-gray-600 leading-relaxed font-light">{item.text}</p>
-                                            </div>
-                                        </div>
-                                    ))
-                                ) : (
-                                    <div className="text-center text-gray-400 text-sm mt-10">
-                                        No transcript available.
-                                    </div>
-                                )}
-                             </div>
-                        </div>
+                    {activeTab === TabOption.TRANSCRIPT && video && (
+                        <TranscriptPanel
+                            videoData={video}
+                            currentTime={currentTime}
+                            onSeek={handleSeek}
+                            onDownload={handleDownloadTranscript}
+                            onQuote={handleQuoteToNote}
+                            onImport={handleImportSubtitles}
+                            onSelectTrack={handleSelectTrack}
+                            onSearchHitsChange={setSearchHits}
+                            onCreateHighlight={handleCreateHighlight}
+                            onEditTranscript={handleEditTranscript}
+                            onRevertTranscript={handleRevertTranscript}
+                        />
                     )}
 
-                    {activeTab === TabOption.CHAT && videoData && (
-                        <ChatInterface videoTitle={videoData.title} />
+                    {activeTab === TabOption.CHAT && video && (
+                        <ChatInterface
+                            key={`${video.platform}:${video.bvid}:${video.page ?? 1}`}
+                            video={video}
+                            onSeek={handleSeek}
+                        />
                     )}
 
-                    {activeTab === TabOption.NOTES && (
-                        <div className="h-full flex flex-col items-center justify-center text-center p-6 bg-gray-50 rounded-2xl border border-dashed border-gray-200">
-                             <div className="bg-white p-4 rounded-full shadow-sm mb-4">
-                                <PenTool className="text-gray-400" size={24} />
-                             </div>
-                            <h3 className="font-semibold text-gray-900 mb-2">Sign in to save notes</h3>
-                            <p className="text-sm text-gray-500 mb-6 max-w-[200px]">Highlight transcript moments and keep your takeaways in one place.</p>
-                            <button className="bg-black text-white px-6 py-2.5 rounded-full text-sm font-medium hover:bg-gray-800 transition shadow-lg shadow-gray-200">
-                                Sign in to save notes
-                            </button>
-                        </div>
+                    {activeTab === TabOption.NOTES && videoData && (
+                        <NotesPanel
+                            notes={notes}
+                            currentTime={currentTime}
+                            draft={noteDraft}
+                            onDraftChange={setNoteDraft}
+                            onSave={handleSaveNote}
+                            onDelete={handleDeleteNote}
+                            onSeek={handleSeek}
+                        />
+                    )}
+
+                    {activeTab === TabOption.STUDY && video && (
+                        <StudyPanel
+                            key={`${video.platform}:${video.bvid}:${video.page ?? 1}`}
+                            video={video}
+                            onSeek={handleSeek}
+                        />
                     )}
                 </div>
             </div>
@@ -1,24 +1,39 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, Bot, User, Sparkles } from 'lucide-react';
-import { ChatMessage } from '../types';
-import { sendMessageToGemini } from '../services/geminiService';
+import { Send, Bot, User, Sparkles, Download, Trash2, Square, RotateCcw, AlertCircle } from 'lucide-react';
+import { ChatMessage, VideoData } from '../types';
+import { streamChat } from '../services/api';
+import { loadChat, saveChat, clearChat, chatToMarkdown } from '../services/chatStore';
+import ChatMarkdown from './ChatMarkdown';
+import { downloadFile } from '../utils/download';
 
 interface ChatInterfaceProps {
-  videoTitle: string;
+  // The conversation belongs to this video; remount (via `key`) when it changes
+  video: VideoData;
+  onSeek: (time: number) => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ videoTitle }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: 'init',
-      role: 'model',
-      text: `Hi! I've analyzed "${videoTitle}". What would you like to know about it?`,
-      timestamp: Date.now()
-    }
-  ]);
+const DEFAULT_PRESETS = [
+  "What are the key takeaways?",
+  "Summarize the main argument"
+];
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ video, onSeek }) => {
+  // The greeting is local UI, not part of the conversation the model has seen
+  const greeting: ChatMessage = {
+    id: 'init',
+    role: 'model',
+    text: `Hi! I've analyzed "${video.title}". What would you like to know about it?`,
+    timestamp: 0
+  };
+
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [isRestoring, setIsRestoring] = useState(true);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Latest conversation, so a reply that arrives after the tab was switched still gets saved
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -28,34 +43,106 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ videoTitle }) => {
     scrollToBottom();
   }, [messages]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
+  // Restore the saved conversation for this video
+  useEffect(() => {
+    let cancelled = false;
+    loadChat(video)
+      .then(saved => {
+        if (cancelled) return;
+        // A reply still streaming when the page closed will never finish
+        const restored = saved.map(m => m.status === 'streaming' ? { ...m, status: 'stopped' as const } : m);
+        messagesRef.current = restored;
+        setMessages(restored);
+      })
+      .catch(err => console.warn("Failed to load chat history.", err))
+      .finally(() => { if (!cancelled) setIsRestoring(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Streaming updates only touch the UI; the finished reply is saved once
+  const showMessages = (next: ChatMessage[]) => {
+    messagesRef.current = next;
+    setMessages(next);
+  };
+
+  const commitMessages = (next: ChatMessage[]) => {
+    showMessages(next);
+    saveChat(video, next).catch(err => console.warn("Failed to save chat history.", err));
+  };
+
+  /** Streams the model's answer to `userMsg` into a new message after `history`. */
+  const requestReply = async (history: ChatMessage[], userMsg: ChatMessage) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+
+    const reply: ChatMessage = { id: `${userMsg.id}-r${Date.now()}`, role: 'model', text: '', timestamp: Date.now(), status: 'streaming' };
+    const withReply = (changes: Partial<ChatMessage>) => [...history, userMsg, { ...reply, ...changes }];
+    commitMessages(withReply({}));
+
+    let text = '';
+    let final: Partial<ChatMessage>;
+    try {
+      // Failed replies were never seen by the model, so they're left out of its history
+      const context = history.filter(m => m.status !== 'error');
+      await streamChat(video.title, video.transcript, context, userMsg.text, {
+        signal: controller.signal,
+        onDelta: (delta) => {
+          text += delta;
+          showMessages(withReply({ text }));
+        }
+      });
+      final = { text: text || "I couldn't generate a response.", status: undefined };
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        final = { text, status: 'stopped' };
+      } else {
+        console.error("Chat Error:", error);
+        final = { text, status: 'error', error: error.message || "Something went wrong." };
+      }
+    }
+
+    commitMessages(withReply(final));
+    abortRef.current = null;
+    setIsLoading(false);
+  };
+
+  // Presets pass their text directly; reading `input` right after setInput would see the old value
+  const handleSend = (text: string = input) => {
+    if (!text.trim() || isLoading || isRestoring) return;
 
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
-      text: input,
+      text,
       timestamp: Date.now()
     };
-
-    setMessages(prev => [...prev, userMsg]);
     setInput('');
-    setIsLoading(true);
+    requestReply(messagesRef.current, userMsg);
+  };
 
-    try {
-      const responseText = await sendMessageToGemini(input);
-      const modelMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: responseText,
-        timestamp: Date.now()
-      };
-      setMessages(prev => [...prev, modelMsg]);
-    } catch (error) {
-      console.error(error);
-    } finally {
-      setIsLoading(false);
-    }
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  // Answers the last question again, replacing the reply (or error) that followed it
+  const handleRegenerate = () => {
+    if (isLoading) return;
+    const current = messagesRef.current;
+    const index = current.map(m => m.role).lastIndexOf('user');
+    if (index < 0) return;
+    requestReply(current.slice(0, index), current[index]);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm("Clear this conversation? This cannot be undone.")) return;
+    messagesRef.current = [];
+    setMessages([]);
+    clearChat(video).catch(err => console.warn("Failed to clear chat history.", err));
+  };
+
+  const handleExport = () => {
+    downloadFile(`${video.title.substring(0, 10)}_chat.md`, chatToMarkdown(video, messages), 'text/markdown');
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -65,12 +152,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ videoTitle }) => {
     }
   };
 
-  // Preset prompts
-  const presets = [
-    "What are the key takeaways?",
-    "Summarize the main argument",
-    "Explain the 'Prompting' concept"
-  ];
+  // Generated for this video during analysis; generic ones if that failed
+  const presets = video.suggestedQuestions?.length ? video.suggestedQuestions : DEFAULT_PRESETS;
 
   return (
     <div className="flex flex-col h-full bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
@@ -80,11 +163,29 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ videoTitle }) => {
           <Sparkles size={16} className="text-purple-500" />
           <span>AI Assistant</span>
         </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleExport}
+            disabled={messages.length === 0}
+            className="flex items-center gap-1 px-3 py-1 border border-gray-200 text-gray-600 text-xs rounded-full hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            title="Export conversation (.md)"
+          >
+            <Download size={12} /> Export
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={messages.length === 0 || isLoading}
+            className="flex items-center gap-1 px-3 py-1 border border-gray-200 text-gray-600 text-xs rounded-full hover:bg-gray-50 hover:text-red-600 disabled:opacity-50 transition-colors"
+            title="Clear conversation"
+          >
+            <Trash2 size={12} /> Clear
+          </button>
+        </div>
       </div>
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar bg-gray-50/50">
-        {messages.map((msg) => (
+        {[greeting, ...messages].map((msg) => (
           <div
             key={msg.id}
             className={`flex items-start gap-3 ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}
@@ -94,27 +195,56 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ videoTitle }) => {
             }`}>
               {msg.role === 'model' ? <Bot size={18} /> : <User size={18} />}
             </div>
-            <div className={`max-w-[85%] rounded-2xl px-4 py-2.5 text-sm leading-relaxed shadow-sm ${
-              msg.role === 'user' 
-                ? 'bg-blue-600 text-white rounded-tr-sm' 
-                : 'bg-white text-gray-800 border border-gray-100 rounded-tl-sm'
-            }`}>
-              {msg.text}
-            </div>
+            {msg.status === 'streaming' && !msg.text ? (
+              <div className="bg-white px-4 py-3 rounded-2xl rounded-tl-sm border border-gray-100 shadow-sm">
+                <div className="flex gap-1">
+                  <span className="w-2 h-2 bg-gray-300 rounded-full animate-bounce"></span>
+                  <span className="w-2 h-2 bg-gray-300 rounded-full animate-bounce" style={{animationDelay: '0.15s'}}></span>
+                  <span className="w-2 h-2 bg-gray-300 rounded-full animate-bounce" style={{animationDelay: '0.3s'}}></span>
+                </div>
+              </div>
+            ) : (
+              <div className={`max-w-[85%] min-w-0 rounded-2xl px-4 py-2.5 text-sm leading-relaxed shadow-sm ${
+                msg.role === 'user' 
+                  ? 'bg-blue-600 text-white rounded-tr-sm whitespace-pre-wrap' 
+                  : msg.status === 'error'
+                    ? 'bg-red-50 text-gray-800 border border-red-100 rounded-tl-sm'
+                    : 'bg-white text-gray-800 border border-gray-100 rounded-tl-sm'
+              }`}>
+                {msg.role === 'model' ? <ChatMarkdown text={msg.text} onSeek={onSeek} /> : msg.text}
+                {msg.status === 'streaming' && (
+                  <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-purple-400 animate-pulse" />
+                )}
+                {msg.status === 'stopped' && (
+                  <span className="block mt-1 text-xs italic text-gray-400">Response stopped.</span>
+                )}
+                {msg.status === 'error' && (
+                  <div className={`flex items-center gap-2 text-xs text-red-600 ${msg.text ? 'mt-2' : ''}`}>
+                    <AlertCircle size={14} className="flex-shrink-0" />
+                    <span className="flex-1">{msg.error}</span>
+                    {msg === messages[messages.length - 1] && !isLoading && (
+                      <button
+                        onClick={handleRegenerate}
+                        className="flex items-center gap-1 px-2 py-0.5 border border-red-200 rounded-full hover:bg-red-100 transition-colors"
+                      >
+                        <RotateCcw size={11} /> Retry
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         ))}
-        {isLoading && (
-          <div className="flex items-start gap-3">
-             <div className="w-8 h-8 rounded-full bg-purple-100 text-purple-600 flex items-center justify-center">
-                <Bot size={18} />
-             </div>
-             <div className="bg-white px-4 py-3 rounded-2xl rounded-tl-sm border border-gray-100 shadow-sm">
-               <div className="flex gap-1">
-                 <span className="w-2 h-2 bg-gray-300 rounded-full animate-bounce"></span>
-                 <span className="w-2 h-2 bg-gray-300 rounded-full animate-bounce" style={{animationDelay: '0.15s'}}></span>
-                 <span className="w-2 h-2 bg-gray-300 rounded-full animate-bounce" style={{animationDelay: '0.3s'}}></span>
-               </div>
-             </div>
+        {messages.length > 0 && !isLoading && messages[messages.length - 1].status !== 'error' && (
+          <div className="flex justify-start pl-11">
+            <button
+              onClick={handleRegenerate}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-purple-600 transition-colors"
+              title="Answer the last question again"
+            >
+              <RotateCcw size={12} /> Regenerate
+            </button>
           </div>
         )}
         <div ref={messagesEndRef} />
@@ -123,12 +253,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ videoTitle }) => {
       {/* Input Area */}
       <div className="p-4 bg-white border-t border-gray-100">
         {/* Preset Chips */}
-        {messages.length < 3 && (
+        {messages.length < 2 && !isRestoring && (
             <div className="flex gap-2 overflow-x-auto pb-3 no-scrollbar">
                 {presets.map(p => (
                     <button 
                         key={p} 
-                        onClick={() => { setInput(p); handleSend(); }} // Fix: Actually trigger send for better UX, or just setInput
+                        onClick={() => handleSend(p)}
                         className="whitespace-nowrap px-3 py-1.5 bg-gray-50 hover:bg-gray-100 border border-gray-200 rounded-full text-xs text-gray-600 transition-colors"
                     >
                         {p}
@@ -147,13 +277,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ videoTitle }) => {
             rows={1}
             style={{ minHeight: '46px', maxHeight: '120px' }}
           />
-          <button
-            onClick={handleSend}
-            disabled={!input.trim() || isLoading}
-            className="absolute right-2 top-1.5 p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            <Send size={16} />
-          </button>
+          {isLoading ? (
+            <button
+              onClick={handleStop}
+              className="absolute right-2 top-1.5 p-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors"
+              title="Stop generating"
+            >
+              <Square size={16} />
+            </button>
+          ) : (
+            <button
+              onClick={() => handleSend()}
+              disabled={!input.trim() || isRestoring}
+              className="absolute right-2 top-1.5 p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Send size={16} />
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,133 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy, PlayCircle } from 'lucide-react';
+import { parseTime } from '../utils/time';
+
+interface ChatMarkdownProps {
+  text: string;
+  onSeek: (time: number) => void;
+}
+
+// "[12:34]", "12:34" or "1:02:03"; the brackets are the model's citation style
+const TIMESTAMP_PATTERN = /\[?\b((?:\d+:)?\d{1,2}:[0-5]\d)\b\]?/g;
+const SEEK_PREFIX = '#t=';
+
+// Minimal mdast shapes, enough for the timestamp plugin
+interface MdNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MdNode[];
+}
+
+/**
+ * Remark plugin: turns timestamps in plain text into `#t=<seconds>` links,
+ * which the `a` renderer below shows as seek chips. Code and existing links are left alone.
+ */
+const remarkTimestamps = () => (tree: MdNode) => {
+  const visit = (node: MdNode) => {
+    if (!node.children || node.type === 'link' || node.type === 'linkReference') return;
+    node.children = node.children.flatMap(child => {
+      if (child.type !== 'text') {
+        visit(child);
+        return [child];
+      }
+      const value = child.value!;
+      const parts: MdNode[] = [];
+      let last = 0;
+      for (const match of value.matchAll(TIMESTAMP_PATTERN)) {
+        const time = parseTime(match[1]);
+        if (time === null) continue;
+        if (match.index! > last) parts.push({ type: 'text', value: value.slice(last, match.index) });
+        parts.push({ type: 'link', url: `${SEEK_PREFIX}${time}`, children: [{ type: 'text', value: match[1] }] });
+        last = match.index! + match[0].length;
+      }
+      if (parts.length === 0) return [child];
+      if (last < value.length) parts.push({ type: 'text', value: value.slice(last) });
+      return parts;
+    });
+  };
+  visit(tree);
+};
+
+// Sanitizing runs before KaTeX and highlighting, so only their input classes need allowing
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children, ...props }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.innerText ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.warn("Failed to copy code.", err);
+    }
+  };
+
+  return (
+    <div className="relative group not-prose my-2">
+      <pre ref={preRef} {...props} className="overflow-x-auto rounded-lg bg-gray-50 border border-gray-100 p-3 text-xs leading-relaxed">
+        {children}
+      </pre>
+      <button
+        onClick={handleCopy}
+        className="absolute top-1.5 right-1.5 flex items-center gap-1 px-2 py-1 bg-white border border-gray-200 rounded-md text-[10px] text-gray-500 opacity-0 group-hover:opacity-100 hover:text-gray-800 transition-opacity"
+        title="Copy code"
+      >
+        {copied ? <Check size={11} /> : <Copy size={11} />}
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  );
+};
+
+/** Renders a model answer: GFM Markdown, KaTeX math, highlighted code and seekable timestamps. */
+const ChatMarkdown: React.FC<ChatMarkdownProps> = ({ text, onSeek }) => {
+  const components: Components = {
+    pre: ({ node, ...props }) => <CodeBlock {...props} />,
+    a: ({ node, href, children, ...props }) => {
+      if (href?.startsWith(SEEK_PREFIX)) {
+        const time = Number(href.slice(SEEK_PREFIX.length));
+        return (
+          <button
+            onClick={() => onSeek(time)}
+            className="inline-flex items-center gap-0.5 mx-0.5 px-1.5 py-0.5 align-baseline bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-md text-xs font-mono font-medium no-underline transition-colors"
+            title={`Jump to ${children}`}
+          >
+            <PlayCircle size={11} />
+            {children}
+          </button>
+        );
+      }
+      return <a href={href} target="_blank" rel="noopener noreferrer" {...props}>{children}</a>;
+    },
+  };
+
+  return (
+    <div className="prose prose-sm max-w-none prose-p:my-1.5 prose-ul:my-1.5 prose-ol:my-1.5 prose-li:my-0.5 prose-headings:mt-3 prose-headings:mb-1.5">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath, remarkTimestamps]}
+        rehypePlugins={[[rehypeSanitize, sanitizeSchema], rehypeKatex, rehypeHighlight]}
+        components={components}
+      >
+        {text}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default ChatMarkdown;
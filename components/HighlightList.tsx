@@ -1,52 +1,278 @@
-import React from 'react';
-import { Play } from 'lucide-react';
+import React, { useState } from 'react';
+import { Play, Scissors, Loader2, AlertCircle, Pencil, Check, Plus, Split, Merge, Trash2, RotateCcw } from 'lucide-react';
 import { Highlight } from '../types';
+import { ClipFormat, ClipOptions, ClipSubtitles } from '../services/api';
+import { formatTime } from '../utils/time';
+import { HIGHLIGHT_COLORS, HighlightChange, createHighlight, mergeWithNext, splitHighlight } from '../utils/highlightEdits';
+
+// Length of a chapter added at the playhead, unless the next chapter starts sooner
+const NEW_CHAPTER_SECONDS = 60;
 
 interface HighlightListProps {
   highlights: Highlight[];
+  currentTime: number;
   onSeek: (time: number) => void;
+  // Cuts the given highlights into clips and downloads them; hides the clip tools when absent
+  onExport?: (highlights: Highlight[], options: ClipOptions) => Promise<void>;
+  // Enables chapter editing
+  duration?: number;
+  onChange?: (change: HighlightChange) => void;
+  // Drops all manual edits, back to the generated chapters
+  onResetEdits?: () => void;
+  isEdited?: boolean;
 }
 
-const HighlightList: React.FC<HighlightListProps> = ({ highlights, onSeek }) => {
-  const formatTime = (seconds: number) => {
-    const m = Math.floor(seconds / 60);
-    const s = Math.floor(seconds % 60);
-    return `${m}:${s.toString().padStart(2, '0')}`;
+const HighlightList: React.FC<HighlightListProps> = ({ highlights, currentTime, onSeek, onExport, duration = 0, onChange, onResetEdits, isEdited = false }) => {
+  const [format, setFormat] = useState<ClipFormat>('mp4');
+  const [subtitles, setSubtitles] = useState<ClipSubtitles>('none');
+  // Highlight id being exported, or 'all'
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [colorPickerId, setColorPickerId] = useState<string | null>(null);
+
+  const rename = (highlight: Highlight, title: string) => {
+    const trimmed = title.trim();
+    if (trimmed && trimmed !== highlight.title) onChange?.({ updated: [{ ...highlight, title: trimmed }], removed: [] });
+  };
+
+  const addAtPlayhead = () => onChange?.(createHighlight(highlights, {
+    title: 'New chapter',
+    startTime: currentTime,
+    endTime: currentTime + NEW_CHAPTER_SECONDS,
+    duration: duration || Math.max(0, ...highlights.map(h => h.endTime)),
+  }));
+
+  const handleExport = async (targets: Highlight[], key: string) => {
+    if (!onExport || exporting) return;
+    setExporting(key);
+    setExportError(null);
+    try {
+      await onExport(targets, { format, subtitles });
+    } catch (err: any) {
+      setExportError(err.message || "Failed to export clips");
+    } finally {
+      setExporting(null);
+    }
   };
 
   return (
     <div className="space-y-2">
-      {highlights.map((highlight) => (
-        <div 
-          key={highlight.id}
-          onClick={() => onSeek(highlight.startTime)}
-          className="group flex items-center p-3 rounded-lg hover:bg-gray-50 cursor-pointer transition-colors border border-transparent hover:border-gray-200"
-        >
-          {/* Color Dot */}
+      {onChange && (
+        <div className="flex items-center gap-2 px-3 pt-2 text-xs text-gray-500">
+          <button
+            onClick={() => { setIsEditing(e => !e); setColorPickerId(null); }}
+            className={`flex items-center gap-1 px-2.5 py-1 border rounded-full transition-colors ${
+              isEditing ? 'border-blue-200 bg-blue-50 text-blue-600' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {isEditing ? <Check size={12} /> : <Pencil size={12} />}
+            {isEditing ? 'Done' : 'Edit chapters'}
+          </button>
+          {isEditing && (
+            <button
+              onClick={addAtPlayhead}
+              className="flex items-center gap-1 px-2.5 py-1 border border-gray-200 text-gray-600 rounded-full hover:bg-gray-50 transition-colors"
+              title={`Add a chapter at ${formatTime(currentTime)}`}
+            >
+              <Plus size={12} />
+              Add at playhead
+            </button>
+          )}
+          {isEdited && onResetEdits && (
+            <button
+              onClick={() => {
+                if (window.confirm('Discard your chapter edits and go back to the generated chapters?')) onResetEdits();
+              }}
+              className="ml-auto flex items-center gap-1 px-2.5 py-1 text-gray-500 rounded-full hover:bg-gray-100 transition-colors"
+              title="Discard your chapter edits"
+            >
+              <RotateCcw size={12} />
+              Reset edits
+            </button>
+          )}
+        </div>
+      )}
+
+      {onExport && highlights.length > 0 && (
+        <div className="flex items-center gap-2 px-3 pt-2 pb-1 text-xs text-gray-500">
+          <Scissors size={13} className="text-gray-400" />
+          <span className="font-medium text-gray-600">Clips</span>
+          <select
+            value={format}
+            onChange={(e) => {
+              const next = e.target.value as ClipFormat;
+              setFormat(next);
+              // Audio has no picture to burn subtitles into
+              if (next === 'mp3' && subtitles === 'burn') setSubtitles('sidecar');
+            }}
+            className="px-1.5 py-0.5 bg-white border border-gray-200 rounded-md focus:outline-none"
+            title="Clip format"
+          >
+            <option value="mp4">MP4 video</option>
+            <option value="mp3">MP3 audio</option>
+          </select>
+          <select
+            value={subtitles}
+            onChange={(e) => setSubtitles(e.target.value as ClipSubtitles)}
+            className="px-1.5 py-0.5 bg-white border border-gray-200 rounded-md focus:outline-none"
+            title="Subtitles"
+          >
+            <option value="none">No subtitles</option>
+            {format === 'mp4' && <option value="burn">Burned-in subtitles</option>}
+            <option value="sidecar">Separate .srt</option>
+          </select>
+          <button
+            onClick={() => handleExport(highlights, 'all')}
+            disabled={!!exporting}
+            className="ml-auto flex items-center gap-1 px-2.5 py-1 bg-black text-white rounded-full hover:bg-gray-800 disabled:opacity-50 transition-colors"
+          >
+            {exporting === 'all' && <Loader2 size={11} className="animate-spin" />}
+            Export all
+          </button>
+        </div>
+      )}
+
+      {exportError && (
+        <div className="mx-3 flex items-start gap-2 p-2 bg-red-50 border border-red-100 rounded-lg text-xs text-red-600">
+          <AlertCircle size={13} className="flex-shrink-0 mt-0.5" />
+          {exportError}
+        </div>
+      )}
+
+      {highlights.map((highlight, index) => {
+        const isActive = currentTime >= highlight.startTime && currentTime < highlight.endTime;
+        if (isEditing) {
+          const next = highlights[index + 1];
+          return (
+            <div key={highlight.id} className="p-3 rounded-lg border border-gray-100 space-y-2">
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setColorPickerId(id => (id === highlight.id ? null : highlight.id))}
+                  className="w-4 h-4 rounded-full flex-shrink-0 ring-1 ring-black/10 hover:scale-110 transition-transform"
+                  style={{ backgroundColor: highlight.color }}
+                  title="Change color"
+                />
+                <input
+                  // Remount when the title changes elsewhere (e.g. a reset)
+                  key={highlight.title}
+                  defaultValue={highlight.title}
+                  onBlur={(e) => rename(highlight, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                    if (e.key === 'Escape') {
+                      e.currentTarget.value = highlight.title;
+                      e.currentTarget.blur();
+                    }
+                  }}
+                  className="min-w-0 flex-1 px-2 py-1 text-sm bg-gray-50 border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400"
+                />
+                <button
+                  onClick={() => onSeek(highlight.startTime)}
+                  className="text-xs text-gray-400 font-mono hover:text-blue-600"
+                  title="Play from here"
+                >
+                  {formatTime(highlight.startTime)}–{formatTime(highlight.endTime)}
+                </button>
+              </div>
+
+              {colorPickerId === highlight.id && (
+                <div className="flex items-center gap-1.5 pl-6">
+                  {HIGHLIGHT_COLORS.map(color => (
+                    <button
+                      key={color}
+                      onClick={() => {
+                        onChange!({ updated: [{ ...highlight, color }], removed: [] });
+                        setColorPickerId(null);
+                      }}
+                      className={`w-5 h-5 rounded-full hover:scale-110 transition-transform ${
+                        color === highlight.color ? 'ring-2 ring-offset-1 ring-gray-400' : ''
+                      }`}
+                      style={{ backgroundColor: color }}
+                      title={color}
+                    />
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-1 pl-6 text-xs text-gray-500">
+                <button
+                  onClick={() => onChange!(splitHighlight(highlight, currentTime))}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-gray-100"
+                  title={isActive ? `Split at ${formatTime(currentTime)}` : 'Split in the middle'}
+                >
+                  <Split size={12} />
+                  Split
+                </button>
+                <button
+                  onClick={() => onChange!(mergeWithNext(highlights, highlight.id))}
+                  disabled={!next}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent"
+                  title={next ? `Merge with "${next.title}"` : 'No chapter after this one'}
+                >
+                  <Merge size={12} />
+                  Merge with next
+                </button>
+                <button
+                  onClick={() => onChange!({ updated: [], removed: [highlight.id] })}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded text-red-500 hover:bg-red-50 ml-auto"
+                  title="Delete this chapter"
+                >
+                  <Trash2 size={12} />
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        }
+        return (
           <div 
-            className="w-3 h-3 rounded-full flex-shrink-0 mr-4"
-            style={{ backgroundColor: highlight.color }}
-          />
-          
-          <div className="flex-grow min-w-0">
-            <h4 className="text-sm font-medium text-gray-900 truncate group-hover:text-blue-600 transition-colors">
-              {highlight.title}
-            </h4>
-            {highlight.description && (
-              <p className="text-xs text-gray-500 truncate mt-0.5">
-                {highlight.description}
-              </p>
+            key={highlight.id}
+            onClick={() => onSeek(highlight.startTime)}
+            aria-current={isActive ? 'true' : undefined}
+            className={`group flex items-center p-3 rounded-lg cursor-pointer transition-colors border ${
+              isActive ? 'bg-blue-50/60 border-blue-100' : 'border-transparent hover:bg-gray-50 hover:border-gray-200'
+            }`}
+          >
+            {/* Color Dot */}
+            <div 
+              className={`w-3 h-3 rounded-full flex-shrink-0 mr-4 ${isActive ? 'ring-2 ring-offset-2 ring-blue-300 animate-pulse' : ''}`}
+              style={{ backgroundColor: highlight.color }}
+            />
+            
+            <div className="flex-grow min-w-0">
+              <h4 className={`text-sm font-medium truncate group-hover:text-blue-600 transition-colors ${isActive ? 'text-blue-600' : 'text-gray-900'}`}>
+                {highlight.title}
+              </h4>
+              {highlight.description && (
+                <p className="text-xs text-gray-500 truncate mt-0.5">
+                  {highlight.description}
+                </p>
+              )}
+            </div>
+
+            {onExport && (
+              <button
+                onClick={(e) => { e.stopPropagation(); handleExport([highlight], highlight.id); }}
+                disabled={!!exporting}
+                className={`p-1 ml-2 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 disabled:hover:bg-transparent transition-opacity ${
+                  exporting === highlight.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                }`}
+                title={`Download this highlight as ${format.toUpperCase()}`}
+              >
+                {exporting === highlight.id ? <Loader2 size={13} className="animate-spin" /> : <Scissors size={13} />}
+              </button>
             )}
-          </div>
 
-          <div className="flex items-center text-xs text-gray-400 font-mono ml-3">
-             <span className="opacity-0 group-hover:opacity-100 mr-2 transition-opacity">
-                <Play size={12} fill="currentColor" />
-             </span>
-             {formatTime(highlight.startTime)}
+            <div className="flex items-center text-xs text-gray-400 font-mono ml-3">
+               <span className="opacity-0 group-hover:opacity-100 mr-2 transition-opacity">
+                  <Play size={12} fill="currentColor" />
+               </span>
+               {formatTime(highlight.startTime)}
+            </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 };
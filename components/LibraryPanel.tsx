@@ -0,0 +1,269 @@
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { Library, Search, Trash2, Tag, Plus, X, Youtube, Tv, PlayCircle } from 'lucide-react';
+import { LibraryEntry, TranscriptCorrection } from '../types';
+import {
+  listLibrary, setLibraryTags, deleteLibraryEntry,
+  transcriptSourceOf, TRANSCRIPT_SOURCE_LABELS, TranscriptSourceKind,
+} from '../services/libraryStore';
+import { correctedTranscriptOf, listTranscriptCorrections } from '../services/transcriptStore';
+import { formatTime } from '../utils/time';
+import { matchText, searchTranscript } from '../utils/search';
+import MatchedText from './MatchedText';
+
+interface LibraryPanelProps {
+  // `time` is set when opening a transcript match
+  onOpen: (entry: LibraryEntry, time?: number) => void;
+}
+
+const MATCHES_PER_VIDEO = 3;
+const MAX_TRANSCRIPT_MATCHES = 30;
+
+const matchesQuery = (entry: LibraryEntry, query: string) => {
+  if (!query.trim()) return true;
+  const { video } = entry;
+  return matchText([video.title, video.author, video.category ?? '', ...entry.tags].join(' '), query) !== null;
+};
+
+const LibraryPanel: React.FC<LibraryPanelProps> = ({ onOpen }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  // Transcript corrections by video; search covers the transcript the user corrected
+  const [corrections, setCorrections] = useState<Map<string, TranscriptCorrection>>(new Map());
+  const [query, setQuery] = useState('');
+  const [platform, setPlatform] = useState<'all' | LibraryEntry['video']['platform']>('all');
+  const [source, setSource] = useState<'all' | TranscriptSourceKind>('all');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  // Entry whose tag input is open
+  const [taggingKey, setTaggingKey] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+
+  useEffect(() => {
+    listLibrary()
+      .then(setEntries)
+      .catch(err => console.warn("Failed to load the library.", err));
+    listTranscriptCorrections()
+      .then(setCorrections)
+      .catch(err => console.warn("Failed to load transcript corrections.", err));
+  }, []);
+
+  const allTags = [...new Set(entries.flatMap(e => e.tags))].sort();
+  const filtered = entries.filter(e =>
+    (platform === 'all' || e.video.platform === platform) &&
+    (source === 'all' || transcriptSourceOf(e.video) === source) &&
+    (!activeTag || e.tags.includes(activeTag))
+  );
+  const visible = filtered.filter(e => matchesQuery(e, query));
+
+  // Searching every saved transcript is the slow part; let typing stay responsive
+  const deferredQuery = useDeferredValue(query);
+  const transcriptMatches = useMemo(() => {
+    if (!deferredQuery.trim()) return [];
+    return filtered
+      .flatMap(entry => searchTranscript(correctedTranscriptOf(entry.video, corrections), deferredQuery)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MATCHES_PER_VIDEO)
+        .map(match => ({ entry, match })))
+      .sort((a, b) => b.match.score - a.match.score)
+      .slice(0, MAX_TRANSCRIPT_MATCHES);
+  }, [deferredQuery, entries, corrections, platform, source, activeTag]);
+
+  const updateTags = async (entry: LibraryEntry, tags: string[]) => {
+    setEntries(prev => prev.map(e => e.key === entry.key ? { ...e, tags } : e));
+    try {
+      await setLibraryTags(entry, tags);
+    } catch (err) {
+      console.error("Failed to save tags:", err);
+    }
+  };
+
+  const handleAddTag = (entry: LibraryEntry) => {
+    const tag = tagDraft.trim();
+    if (tag && !entry.tags.includes(tag)) updateTags(entry, [...entry.tags, tag]);
+    setTagDraft('');
+    setTaggingKey(null);
+  };
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    if (!window.confirm(`Remove "${entry.video.title}" from the library? Its notes and study cards are kept.`)) return;
+    try {
+      await deleteLibraryEntry(entry.key);
+      setEntries(prev => prev.filter(e => e.key !== entry.key));
+      if (activeTag && !entries.some(e => e.key !== entry.key && e.tags.includes(activeTag))) setActiveTag(null);
+    } catch (err) {
+      console.error("Failed to delete library entry:", err);
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="text-left space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-2 font-semibold text-gray-900">
+          <Library size={18} className="text-blue-600" />
+          <span>Your Library</span>
+          <span className="text-xs font-normal text-gray-400">{entries.length}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search title, author, tags..."
+              className="w-52 pl-8 pr-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400"
+            />
+          </div>
+          <select
+            value={platform}
+            onChange={(e) => setPlatform(e.target.value as typeof platform)}
+            className="text-sm px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-gray-700 focus:outline-none"
+            title="Platform"
+          >
+            <option value="all">All platforms</option>
+            <option value="bilibili">Bilibili</option>
+            <option value="youtube">YouTube</option>
+          </select>
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value as typeof source)}
+            className="text-sm px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-gray-700 focus:outline-none"
+            title="Transcript source"
+          >
+            <option value="all">All transcripts</option>
+            {(Object.keys(TRANSCRIPT_SOURCE_LABELS) as TranscriptSourceKind[]).map(kind => (
+              <option key={kind} value={kind}>{TRANSCRIPT_SOURCE_LABELS[kind]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex items-center gap-1.5 flex-wrap">
+          <Tag size={12} className="text-gray-400" />
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                activeTag === tag ? 'bg-blue-50 text-blue-700 border-blue-200' : 'text-gray-500 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        transcriptMatches.length === 0 && <p className="text-sm text-gray-400 py-6 text-center">No videos match these filters.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {visible.map(entry => {
+            const { video } = entry;
+            return (
+              <div
+                key={entry.key}
+                onClick={() => onOpen(entry)}
+                className="group flex gap-3 p-2 bg-white border border-gray-100 rounded-xl cursor-pointer hover:border-gray-200 hover:shadow-sm transition"
+              >
+                <div className="relative w-28 aspect-video flex-shrink-0 bg-gray-100 rounded-lg overflow-hidden">
+                  {video.thumbnail && (
+                    <img src={video.thumbnail} alt="" referrerPolicy="no-referrer" className="w-full h-full object-cover" />
+                  )}
+                  <span className="absolute bottom-1 right-1 px-1 bg-black/70 text-white text-[10px] font-mono rounded">
+                    {formatTime(video.duration)}
+                  </span>
+                </div>
+
+                <div className="min-w-0 flex-grow">
+                  <div className="flex items-start gap-1">
+                    {video.platform === 'youtube'
+                      ? <Youtube size={14} className="text-red-500 flex-shrink-0 mt-0.5" />
+                      : <Tv size={14} className="text-sky-500 flex-shrink-0 mt-0.5" />}
+                    <h4 className="text-sm font-medium text-gray-900 line-clamp-2 group-hover:text-blue-600 transition-colors">
+                      {video.title}{video.page && video.page > 1 ? ` (P${video.page})` : ''}
+                    </h4>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDelete(entry); }}
+                      className="ml-auto p-1 text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition"
+                      title="Remove from library"
+                    >
+                      <Trash2 size={13} />
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 truncate mt-0.5">
+                    {video.author}{video.category ? ` · ${video.category}` : ''} · {TRANSCRIPT_SOURCE_LABELS[transcriptSourceOf(video)]}
+                  </p>
+                  <p className="text-[11px] text-gray-400 mt-0.5">Opened {new Date(entry.lastOpenedAt).toLocaleString()}</p>
+
+                  <div className="flex items-center gap-1 flex-wrap mt-1.5" onClick={(e) => e.stopPropagation()}>
+                    {entry.tags.map(tag => (
+                      <span key={tag} className="flex items-center gap-0.5 pl-1.5 pr-0.5 bg-gray-100 text-gray-600 rounded text-[10px]">
+                        {tag}
+                        <button
+                          onClick={() => updateTags(entry, entry.tags.filter(t => t !== tag))}
+                          className="p-0.5 hover:text-red-500"
+                          title="Remove tag"
+                        >
+                          <X size={9} />
+                        </button>
+                      </span>
+                    ))}
+                    {taggingKey === entry.key ? (
+                      <input
+                        autoFocus
+                        value={tagDraft}
+                        onChange={(e) => setTagDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleAddTag(entry);
+                          if (e.key === 'Escape') { setTagDraft(''); setTaggingKey(null); }
+                        }}
+                        onBlur={() => handleAddTag(entry)}
+                        placeholder="Tag"
+                        className="w-20 px-1.5 py-0.5 border border-gray-200 rounded text-[10px] focus:outline-none focus:border-blue-400"
+                      />
+                    ) : (
+                      <button
+                        onClick={() => { setTaggingKey(entry.key); setTagDraft(''); }}
+                        className="flex items-center gap-0.5 px-1.5 py-0.5 text-gray-400 hover:text-gray-600 rounded text-[10px] border border-dashed border-gray-200"
+                      >
+                        <Plus size={9} /> Tag
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {transcriptMatches.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">In transcripts</h4>
+          {transcriptMatches.map(({ entry, match }) => (
+            <button
+              key={`${entry.key}:${match.index}`}
+              onClick={() => onOpen(entry, match.segment.startTime)}
+              className="w-full flex items-start gap-3 p-2 rounded-lg text-left hover:bg-gray-50 transition-colors"
+            >
+              <span className="flex items-center gap-1 px-1.5 py-0.5 bg-blue-50 text-blue-600 rounded-md text-xs font-mono flex-shrink-0">
+                <PlayCircle size={11} />
+                {formatTime(match.segment.startTime)}
+              </span>
+              <span className="min-w-0">
+                <span className="block text-xs text-gray-400 truncate">{entry.video.title}</span>
+                <span className="block text-sm text-gray-700 line-clamp-2">
+                  <MatchedText text={match.segment.text} ranges={match.ranges} />
+                </span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryPanel;
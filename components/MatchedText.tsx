@@ -0,0 +1,25 @@
+import React from 'react';
+import { TextRange } from '../utils/search';
+
+interface MatchedTextProps {
+  text: string;
+  ranges: TextRange[]; // Sorted and non-overlapping (see mergeRanges)
+  markClassName?: string;
+}
+
+/** `text` with the matched ranges wrapped in <mark>. */
+const MatchedText: React.FC<MatchedTextProps> = ({ text, ranges, markClassName = 'bg-yellow-200 text-inherit rounded-sm' }) => {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach((range, i) => {
+    if (range.start > last) parts.push(text.slice(last, range.start));
+    parts.push(<mark key={i} className={markClassName}>{text.slice(range.start, range.end)}</mark>);
+    last = range.end;
+  });
+  if (last < text.length) parts.push(text.slice(last));
+  return <>{parts}</>;
+};
+
+export default MatchedText;
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { PenTool, Plus, Trash2, Pencil, Quote } from 'lucide-react';
+import { Note } from '../types';
+import { formatTime } from '../utils/time';
+
+export interface NoteDraft {
+  id?: string;
+  timestamp: number;
+  text: string;
+  quote?: string;
+}
+
+interface NotesPanelProps {
+  notes: Note[];
+  currentTime: number;
+  draft: NoteDraft | null;
+  onDraftChange: (draft: NoteDraft | null) => void;
+  onSave: (draft: NoteDraft) => void;
+  onDelete: (id: string) => void;
+  onSeek: (time: number) => void;
+}
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ notes, currentTime, draft, onDraftChange, onSave, onDelete, onSeek }) => {
+  const [text, setText] = useState('');
+
+  // Reset the editor whenever a different draft is opened
+  useEffect(() => {
+    setText(draft?.text ?? '');
+  }, [draft]);
+
+  const handleSave = () => {
+    if (!draft || !text.trim()) return;
+    onSave({ ...draft, text: text.trim() });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSave();
+    }
+    if (e.key === 'Escape') onDraftChange(null);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <PenTool size={16} className="text-blue-500" />
+          <span>{notes.length} {notes.length === 1 ? 'note' : 'notes'}</span>
+        </div>
+        <button
+          onClick={() => onDraftChange({ timestamp: currentTime, text: '' })}
+          className="flex items-center gap-1 px-3 py-1 bg-black text-white text-xs rounded-full hover:bg-gray-800 transition-colors"
+        >
+          <Plus size={12} />
+          Note at {formatTime(currentTime)}
+        </button>
+      </div>
+
+      {/* Editor */}
+      {draft && (
+        <div className="mb-4 p-3 bg-blue-50/50 border border-blue-100 rounded-xl space-y-2">
+          <div className="text-xs font-mono text-blue-600">{formatTime(draft.timestamp)}</div>
+          {draft.quote && (
+            <blockquote className="flex gap-2 text-xs text-gray-500 italic border-l-2 border-blue-200 pl-2">
+              <Quote size={12} className="flex-shrink-0 mt-0.5" />
+              {draft.quote}
+            </blockquote>
+          )}
+          <textarea
+            autoFocus
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Write your takeaway..."
+            className="w-full px-3 py-2 bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 resize-none text-sm"
+            rows={3}
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => onDraftChange(null)}
+              className="px-3 py-1 text-xs text-gray-500 hover:text-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!text.trim()}
+              className="px-3 py-1 bg-blue-600 text-white text-xs rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Notes */}
+      <div className="flex-1 overflow-y-auto custom-scrollbar pr-2 space-y-3">
+        {notes.length === 0 && !draft ? (
+          <div className="h-full flex flex-col items-center justify-center text-center p-6 bg-gray-50 rounded-2xl border border-dashed border-gray-200">
+            <div className="bg-white p-4 rounded-full shadow-sm mb-4">
+              <PenTool className="text-gray-400" size={24} />
+            </div>
+            <h3 className="font-semibold text-gray-900 mb-2">No notes yet</h3>
+            <p className="text-sm text-gray-500 max-w-[220px]">Add a note at the playhead, or select a transcript passage to quote it.</p>
+          </div>
+        ) : (
+          notes.map(note => (
+            <div key={note.id} className="group p-3 bg-white border border-gray-100 rounded-xl shadow-sm">
+              <div className="flex items-center justify-between mb-1">
+                <button
+                  onClick={() => onSeek(note.timestamp)}
+                  className="text-xs font-mono text-blue-600 hover:underline"
+                >
+                  {formatTime(note.timestamp)}
+                </button>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => onDraftChange({ id: note.id, timestamp: note.timestamp, text: note.text, quote: note.quote })}
+                    className="p-1 text-gray-400 hover:text-gray-700"
+                    title="Edit note"
+                  >
+                    <Pencil size={12} />
+                  </button>
+                  <button
+                    onClick={() => onDelete(note.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Delete note"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+              {note.quote && (
+                <blockquote className="text-xs text-gray-500 italic border-l-2 border-gray-200 pl-2 mb-1">{note.quote}</blockquote>
+              )}
+              <p className="text-sm text-gray-700 whitespace-pre-wrap">{note.text}</p>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotesPanel;
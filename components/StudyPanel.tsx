@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { GraduationCap, Loader2, PlayCircle, RefreshCw, CheckCircle2, XCircle, Sparkles, AlertCircle } from 'lucide-react';
+import { StudyCard, VideoData } from '../types';
+import { generateStudyCards } from '../services/api';
+import { listCards, saveCard, replaceCards, countDueCards } from '../services/studyStore';
+import { GRADES, Grade, review, previewInterval } from '../utils/sm2';
+import { formatTime } from '../utils/time';
+
+interface StudyPanelProps {
+  // Cards belong to this video; remount (via `key`) when it changes
+  video: VideoData;
+  onSeek: (time: number) => void;
+}
+
+const GRADE_BUTTONS: { grade: Grade; label: string; className: string }[] = [
+  { grade: GRADES.AGAIN, label: 'Again', className: 'border-red-200 text-red-600 hover:bg-red-50' },
+  { grade: GRADES.HARD, label: 'Hard', className: 'border-orange-200 text-orange-600 hover:bg-orange-50' },
+  { grade: GRADES.GOOD, label: 'Good', className: 'border-green-200 text-green-600 hover:bg-green-50' },
+  { grade: GRADES.EASY, label: 'Easy', className: 'border-blue-200 text-blue-600 hover:bg-blue-50' },
+];
+
+const StudyPanel: React.FC<StudyPanelProps> = ({ video, onSeek }) => {
+  const [cards, setCards] = useState<StudyCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dueEverywhere, setDueEverywhere] = useState(0);
+  // Answer revealed for the current card (flashcards), or the option picked (quiz)
+  const [revealed, setRevealed] = useState(false);
+  const [picked, setPicked] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listCards(video.platform, video.bvid, video.page), countDueCards()])
+      .then(([saved, due]) => {
+        if (cancelled) return;
+        setCards(saved);
+        setDueEverywhere(due);
+      })
+      .catch(err => console.warn("Failed to load study cards.", err))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const now = Date.now();
+  const due = cards
+    .filter(c => c.dueAt <= now)
+    .sort((a, b) => a.dueAt - b.dueAt || a.timestamp - b.timestamp);
+  const current = due[0];
+  const nextDue = cards.length > 0 ? Math.min(...cards.map(c => c.dueAt)) : null;
+  const dueElsewhere = Math.max(0, dueEverywhere - due.length);
+
+  const handleGenerate = async () => {
+    if (cards.length > 0 && !window.confirm("Replace this video's cards? Their review progress will be lost.")) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const generated = await generateStudyCards(video);
+      if (generated.length === 0) throw new Error("No study material could be generated for this video.");
+      await replaceCards(video, generated);
+      setCards(generated.sort((a, b) => a.timestamp - b.timestamp));
+      setDueEverywhere(await countDueCards());
+    } catch (err: any) {
+      setError(err.message || "Failed to generate study material");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleGrade = async (grade: Grade) => {
+    if (!current) return;
+    const reviewed = review(current, grade);
+    setCards(prev => prev.map(c => c.id === reviewed.id ? reviewed : c));
+    setRevealed(false);
+    setPicked(null);
+    if (reviewed.dueAt > Date.now()) setDueEverywhere(n => Math.max(0, n - 1));
+    try {
+      await saveCard(reviewed);
+    } catch (err) {
+      console.error("Failed to save review:", err);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="h-full flex items-center justify-center text-gray-400">
+        <Loader2 size={20} className="animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <GraduationCap size={16} className="text-blue-500" />
+          <span>{cards.length > 0 ? `${due.length} due · ${cards.length} cards` : 'Study'}</span>
+        </div>
+        {cards.length > 0 && (
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="flex items-center gap-1 px-3 py-1 border border-gray-200 text-gray-600 text-xs rounded-full hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            title="Generate a new set of cards"
+          >
+            <RefreshCw size={12} className={isGenerating ? 'animate-spin' : ''} /> Regenerate
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 flex items-start gap-2 p-3 bg-red-50 border border-red-100 rounded-xl text-xs text-red-600">
+          <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {cards.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-center px-6 space-y-3">
+            <GraduationCap size={32} className="text-gray-300" />
+            <p className="text-sm text-gray-500">
+              Turn each chapter into quiz questions and flashcards, then review them with spaced repetition.
+            </p>
+            {video.isTranscriptSimulated && (
+              <p className="text-xs text-amber-600">This video has no real transcript, so the material may be inaccurate.</p>
+            )}
+            <button
+              onClick={handleGenerate}
+              disabled={isGenerating || video.highlights.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-black text-white text-sm rounded-full hover:bg-gray-800 disabled:opacity-50 transition-colors"
+            >
+              {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+              {isGenerating ? 'Generating...' : 'Generate study set'}
+            </button>
+          </div>
+        ) : !current ? (
+          <div className="h-full flex flex-col items-center justify-center text-center px-6 space-y-2">
+            <CheckCircle2 size={32} className="text-green-400" />
+            <p className="text-sm font-medium text-gray-700">All caught up!</p>
+            {nextDue && (
+              <p className="text-xs text-gray-500">Next review {new Date(nextDue).toLocaleString()}</p>
+            )}
+          </div>
+        ) : (
+          <div className="p-4 bg-white border border-gray-100 rounded-xl shadow-sm space-y-4">
+            <div className="flex items-center justify-between text-xs text-gray-400">
+              <span className="truncate">{current.chapterTitle}</span>
+              <button
+                onClick={() => onSeek(current.timestamp)}
+                className="flex items-center gap-1 px-1.5 py-0.5 bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-md font-mono transition-colors"
+                title="Watch where this is explained"
+              >
+                <PlayCircle size={11} />
+                {formatTime(current.timestamp)}
+              </button>
+            </div>
+
+            <p className="text-sm font-medium text-gray-800 leading-relaxed">{current.front}</p>
+
+            {current.kind === 'quiz' ? (
+              <div className="space-y-2">
+                {current.options!.map((option, i) => {
+                  const isAnswer = i === current.answerIndex;
+                  const state = picked === null ? 'idle' : isAnswer ? 'correct' : i === picked ? 'wrong' : 'idle';
+                  return (
+                    <button
+                      key={i}
+                      onClick={() => setPicked(i)}
+                      disabled={picked !== null}
+                      className={`w-full flex items-center gap-2 text-left px-3 py-2 border rounded-lg text-sm transition-colors ${
+                        state === 'correct' ? 'border-green-300 bg-green-50 text-green-700'
+                          : state === 'wrong' ? 'border-red-300 bg-red-50 text-red-700'
+                          : 'border-gray-200 text-gray-700 hover:bg-gray-50 disabled:hover:bg-white'
+                      }`}
+                    >
+                      {state === 'correct' && <CheckCircle2 size={14} className="flex-shrink-0" />}
+                      {state === 'wrong' && <XCircle size={14} className="flex-shrink-0" />}
+                      {option}
+                    </button>
+                  );
+                })}
+                {picked !== null && (
+                  <>
+                    {current.back && <p className="text-xs text-gray-500 leading-relaxed">{current.back}</p>}
+                    <div className="flex justify-end">
+                      <button
+                        onClick={() => handleGrade(picked === current.answerIndex ? GRADES.GOOD : GRADES.AGAIN)}
+                        className="px-4 py-1.5 bg-black text-white text-xs rounded-full hover:bg-gray-800 transition-colors"
+                      >
+                        Continue
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ) : !revealed ? (
+              <button
+                onClick={() => setRevealed(true)}
+                className="w-full py-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-500 hover:bg-gray-50 transition-colors"
+              >
+                Show answer
+              </button>
+            ) : (
+              <>
+                <p className="text-sm text-gray-700 leading-relaxed border-t border-gray-100 pt-3">{current.back}</p>
+                <div className="grid grid-cols-4 gap-2">
+                  {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                    <button
+                      key={grade}
+                      onClick={() => handleGrade(grade)}
+                      className={`flex flex-col items-center py-1.5 border rounded-lg text-xs transition-colors ${className}`}
+                    >
+                      <span className="font-medium">{label}</span>
+                      <span className="text-[10px] opacity-70">{previewInterval(current, grade)}</span>
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {dueElsewhere > 0 && (
+        <p className="mt-3 text-xs text-gray-400 text-center">
+          {dueElsewhere} {dueElsewhere === 1 ? 'card is' : 'cards are'} due in other videos.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default StudyPanel;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { BookOpen, Loader2, RefreshCw, Sparkles, AlertCircle } from 'lucide-react';
+import { VideoData, VideoSummary } from '../types';
+import { generateSummary } from '../services/api';
+import { formatTime } from '../utils/time';
+import { anchorSummary, isSummaryOutdated } from '../utils/summaryAnchors';
+
+interface SummaryPanelProps {
+  video: VideoData;
+  onSeek: (time: number) => void;
+  onGenerated: (summary: VideoSummary) => void;
+}
+
+const SummaryPanel: React.FC<SummaryPanelProps> = ({ video, onSeek, onGenerated }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const summary = video.summary;
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      onGenerated(await generateSummary(video, { force: !!summary }));
+    } catch (err: any) {
+      setError(err.message || "Failed to generate summary");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const chapters = summary ? anchorSummary(summary, video.highlights) : [];
+  const isOutdated = !!summary && isSummaryOutdated(summary, video);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <BookOpen size={16} className="text-blue-500" />
+          <span>Summary</span>
+        </div>
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating || video.transcript.length === 0}
+          className={summary
+            ? "flex items-center gap-1 px-3 py-1 border border-gray-200 text-gray-600 text-xs rounded-full hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            : "flex items-center gap-1.5 px-3 py-1 bg-black text-white text-xs rounded-full hover:bg-gray-800 disabled:opacity-50 transition-colors"}
+          title={summary ? "Summarize the video again" : "Summarize the whole transcript"}
+        >
+          {isGenerating
+            ? <Loader2 size={12} className="animate-spin" />
+            : summary ? <RefreshCw size={12} /> : <Sparkles size={12} />}
+          {isGenerating ? 'Summarizing...' : summary ? 'Regenerate' : 'Summarize'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-100 rounded-xl text-xs text-red-600">
+          <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+          {error}
+        </div>
+      )}
+
+      {!summary ? (
+        <p className="text-xs text-gray-400">
+          A TL;DR, a summary of every chapter and the key terms, drawn from the full transcript.
+          {video.isTranscriptSimulated && ' This video has no real transcript, so the summary may be inaccurate.'}
+        </p>
+      ) : (
+        <>
+          {isOutdated && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-100 rounded-xl text-xs text-amber-800">
+              <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+              The chapters or the transcript changed since this summary was written. Regenerate to bring it up to date.
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">TL;DR</h4>
+            <p className="text-sm text-gray-800 leading-relaxed">{summary.tldr}</p>
+          </div>
+
+          {chapters.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Chapters</h4>
+              {chapters.map(({ chapterId, summary: text, title, startTime, color, isChanged }) => (
+                <div
+                  key={chapterId}
+                  onClick={() => onSeek(startTime)}
+                  className="group p-2 -mx-2 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors"
+                >
+                  <div className="flex items-center gap-2">
+                    <div className="w-2.5 h-2.5 rounded-full flex-shrink-0 bg-gray-200" style={color ? { backgroundColor: color } : undefined} />
+                    <span className="text-sm font-medium text-gray-900 truncate group-hover:text-blue-600 transition-colors">{title}</span>
+                    {isChanged && <span className="text-[10px] text-amber-600 flex-shrink-0" title="This chapter was edited after the summary was written">edited</span>}
+                    <span className="ml-auto text-xs text-gray-400 font-mono">{formatTime(startTime)}</span>
+                  </div>
+                  <p className="text-xs text-gray-600 leading-relaxed mt-1 pl-[18px]">{text}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {summary.keyTerms.length > 0 && (
+            <div>
+              <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">Key Terms</h4>
+              <dl className="divide-y divide-gray-50">
+                {summary.keyTerms.map(term => (
+                  <div key={term.term} className="py-2 flex items-start gap-3">
+                    <div className="flex-grow min-w-0">
+                      <dt className="text-sm font-medium text-gray-900">{term.term}</dt>
+                      <dd className="text-xs text-gray-500 leading-relaxed mt-0.5">{term.definition}</dd>
+                    </div>
+                    <button
+                      onClick={() => onSeek(term.firstMention)}
+                      className="flex-shrink-0 px-1.5 py-0.5 bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-md text-xs font-mono transition-colors"
+                      title="Jump to the first mention"
+                    >
+                      {formatTime(term.firstMention)}
+                    </button>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SummaryPanel;
@@ -1,19 +1,102 @@
-import React from 'react';
-import { Highlight } from '../types';
+import React, { useMemo, useRef, useState } from 'react';
+import { Highlight, Note } from '../types';
+import { formatTime } from '../utils/time';
+import { Boundary, HighlightChange, boundariesOf, moveBoundary } from '../utils/highlightEdits';
 
 interface TimelineProps {
   duration: number;
   highlights: Highlight[];
+  currentTime: number;
+  notes?: Note[];
+  searchHits?: number[]; // Start times of transcript search matches
   onSeek: (time: number) => void;
+  // Makes chapter edges draggable; called once per drag, on release
+  onHighlightsChange?: (change: HighlightChange) => void;
 }
 
-const Timeline: React.FC<TimelineProps> = ({ duration, highlights, onSeek }) => {
+const Timeline: React.FC<TimelineProps> = ({ duration, highlights, currentTime, notes = [], searchHits = [], onSeek, onHighlightsChange }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  // While dragging we show the scrub position and only seek on release
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  // Chapter edge being dragged; the chapters preview the move until release
+  const [edgeDrag, setEdgeDrag] = useState<{ boundary: Boundary; time: number } | null>(null);
+
+  const boundaries = useMemo(() => boundariesOf(highlights), [highlights]);
+  const edgeChange = edgeDrag && moveBoundary(highlights, edgeDrag.boundary, edgeDrag.time, duration);
+  const shownHighlights = edgeChange
+    ? highlights.map(h => edgeChange.updated.find(u => u.id === h.id) ?? h)
+    : highlights;
+  // Where the dragged edge ends up after clamping
+  const edgeTime = edgeChange && edgeDrag
+    ? edgeChange.updated.find(h => h.id === edgeDrag.boundary.leftId)?.endTime ?? edgeChange.updated[0]?.startTime ?? edgeDrag.boundary.time
+    : null;
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return ratio * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setScrubTime(timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    const time = timeAt(e.clientX);
+    setHoverTime(time);
+    if (scrubTime !== null) setScrubTime(time);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubTime === null) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    onSeek(timeAt(e.clientX));
+    setScrubTime(null);
+  };
+
+  const handleEdgePointerDown = (e: React.PointerEvent<HTMLDivElement>, boundary: Boundary) => {
+    // The track underneath would start a scrub
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setEdgeDrag({ boundary, time: boundary.time });
+  };
+
+  const handleEdgePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!edgeDrag) return;
+    e.stopPropagation();
+    setEdgeDrag({ ...edgeDrag, time: timeAt(e.clientX) });
+  };
+
+  const handleEdgePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!edgeDrag) return;
+    e.stopPropagation();
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (edgeChange && edgeTime !== edgeDrag.boundary.time) onHighlightsChange?.(edgeChange);
+    setEdgeDrag(null);
+  };
+
+  const playheadTime = scrubTime ?? currentTime;
+  const playheadPercent = duration ? Math.min(100, (playheadTime / duration) * 100) : 0;
+  const tooltipTime = edgeTime ?? scrubTime ?? hoverTime;
+
   return (
-    <div className="w-full h-8 relative mt-4 mb-6 group cursor-pointer">
+    <div
+      ref={trackRef}
+      className="w-full h-8 relative mt-4 mb-6 group cursor-pointer select-none touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setScrubTime(null)}
+      onPointerLeave={() => setHoverTime(null)}
+    >
       {/* Background Track */}
       <div className="absolute top-0 left-0 w-full h-full bg-gray-100 rounded-lg overflow-hidden">
         {/* Render colored segments */}
-        {highlights.map((highlight) => {
+        {shownHighlights.map((highlight) => {
           const widthPercent = ((highlight.endTime - highlight.startTime) / duration) * 100;
           const leftPercent = (highlight.startTime / duration) * 100;
 
@@ -26,20 +109,85 @@ const Timeline: React.FC<TimelineProps> = ({ duration, highlights, onSeek }) =>
                 width: `${widthPercent}%`,
                 backgroundColor: highlight.color,
               }}
-              title={`${highlight.title} (${Math.floor(highlight.startTime / 60)}:${(highlight.startTime % 60).toString().padStart(2, '0')})`}
-              onClick={(e) => {
-                e.stopPropagation();
-                onSeek(highlight.startTime);
-              }}
+              title={`${highlight.title} (${formatTime(highlight.startTime)})`}
             />
           );
         })}
+
+        {/* Search match ticks */}
+        {searchHits.map((time, i) => (
+          <div
+            key={i}
+            className="absolute top-0 h-full w-0.5 -translate-x-1/2 bg-yellow-400 pointer-events-none"
+            style={{ left: `${(time / duration) * 100}%` }}
+          />
+        ))}
+
+        {/* Played portion */}
+        <div
+          className="absolute top-0 left-0 h-full bg-black/10 pointer-events-none"
+          style={{ width: `${playheadPercent}%` }}
+        />
       </div>
-      
+
       {/* Visual Guide on Hover (optional, just adds a subtle interact hint) */}
       <div className="absolute top-0 left-0 w-full h-full pointer-events-none border border-gray-200 rounded-lg"></div>
+
+      {/* Note markers */}
+      {notes.map(note => (
+        <button
+          key={note.id}
+          className="absolute -bottom-2.5 -translate-x-1/2 w-2.5 h-2.5 bg-blue-600 border-2 border-white rounded-full shadow hover:scale-125 transition-transform z-10"
+          style={{ left: `${(note.timestamp / duration) * 100}%` }}
+          title={`${formatTime(note.timestamp)} · ${note.text}`}
+          // Keep the track from starting a scrub underneath the marker
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() => onSeek(note.timestamp)}
+        />
+      ))}
+
+      {/* Chapter edge handles */}
+      {onHighlightsChange && duration > 0 && boundaries.map(boundary => {
+        const key = `${boundary.leftId ?? ''}|${boundary.rightId ?? ''}`;
+        const dragged = edgeDrag !== null && `${edgeDrag.boundary.leftId ?? ''}|${edgeDrag.boundary.rightId ?? ''}` === key;
+        const time = dragged && edgeTime !== null ? edgeTime : boundary.time;
+        return (
+          <div
+            key={key}
+            className="absolute top-0 bottom-0 w-3 -translate-x-1/2 flex justify-center cursor-ew-resize z-10 group/edge"
+            style={{ left: `${(time / duration) * 100}%` }}
+            title="Drag to move this chapter edge"
+            onPointerDown={(e) => handleEdgePointerDown(e, boundary)}
+            onPointerMove={handleEdgePointerMove}
+            onPointerUp={handleEdgePointerUp}
+            onPointerCancel={() => setEdgeDrag(null)}
+          >
+            <div className={`w-1 h-full rounded-full transition-colors ${
+              dragged ? 'bg-gray-900' : 'bg-white/80 group-hover/edge:bg-gray-700'
+            }`} />
+          </div>
+        );
+      })}
+
+      {/* Playhead */}
+      <div
+        className="absolute -top-1 -bottom-1 w-0.5 bg-gray-900 rounded-full pointer-events-none"
+        style={{ left: `${playheadPercent}%` }}
+      >
+        <div className="absolute -top-1 -left-1 w-2.5 h-2.5 bg-gray-900 rounded-full" />
+      </div>
+
+      {/* Time tooltip while hovering or scrubbing */}
+      {tooltipTime !== null && (
+        <div
+          className="absolute -top-7 -translate-x-1/2 px-1.5 py-0.5 bg-gray-900 text-white text-[10px] font-mono rounded pointer-events-none"
+          style={{ left: `${(tooltipTime / duration) * 100}%` }}
+        >
+          {formatTime(tooltipTime)}
+        </div>
+      )}
     </div>
   );
 };
 
-export default Timeline;
\ No newline at end of file
+export default Timeline;
@@ -0,0 +1,343 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Undo2, Redo2, Replace, BookA, RotateCcw, Check, Split, Merge, Play, Plus, X, AlertCircle } from 'lucide-react';
+import { TranscriptSegment } from '../types';
+import { findActiveIndex, formatTime, parseTime } from '../utils/time';
+import { countMatches, mergeSegmentWithNext, replaceAll, splitSegment, updateSegment } from '../utils/transcriptEdits';
+import { addGlossaryTerm, deleteGlossaryTerm, listGlossary } from '../services/glossaryStore';
+
+// Undo steps kept while the editor is open
+const MAX_HISTORY = 100;
+
+interface TranscriptEditorProps {
+  transcript: TranscriptSegment[];
+  duration: number;
+  currentTime: number;
+  isCorrected: boolean;
+  onChange: (transcript: TranscriptSegment[]) => void;
+  // Drops the correction, back to the original transcript
+  onRevert: () => void;
+  onSeek: (time: number) => void;
+  onClose: () => void;
+}
+
+const isTextField = (target: EventTarget) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+const TranscriptEditor: React.FC<TranscriptEditorProps> = ({ transcript, duration, currentTime, isCorrected, onChange, onRevert, onSeek, onClose }) => {
+  const [past, setPast] = useState<TranscriptSegment[][]>([]);
+  const [future, setFuture] = useState<TranscriptSegment[][]>([]);
+  const [isReplaceOpen, setIsReplaceOpen] = useState(false);
+  const [find, setFind] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [glossary, setGlossary] = useState<string[]>([]);
+  const [newTerm, setNewTerm] = useState('');
+  const [glossaryError, setGlossaryError] = useState<string | null>(null);
+  // Segment text boxes, to split at the caret
+  const textRefs = useRef(new Map<string, HTMLTextAreaElement>());
+
+  useEffect(() => {
+    listGlossary()
+      .then(setGlossary)
+      .catch(err => console.warn("Failed to load the glossary.", err));
+  }, []);
+
+  const activeIndex = findActiveIndex(transcript, currentTime);
+  const matchCount = countMatches(transcript, find, { matchCase });
+
+  const commit = (next: TranscriptSegment[]) => {
+    if (next === transcript) return;
+    setPast(p => [...p, transcript].slice(-MAX_HISTORY));
+    setFuture([]);
+    onChange(next);
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    setPast(p => p.slice(0, -1));
+    setFuture(f => [transcript, ...f]);
+    onChange(past[past.length - 1]);
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    setFuture(f => f.slice(1));
+    setPast(p => [...p, transcript]);
+    onChange(future[0]);
+  };
+
+  // Text boxes have their own undo for typing; these shortcuts undo whole edits
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.metaKey || e.ctrlKey) || isTextField(e.target)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      redo();
+    }
+  };
+
+  const handleTextBlur = (segment: TranscriptSegment, text: string) => {
+    if (text.trim() && text !== segment.text) commit(updateSegment(transcript, segment.id, { text }));
+  };
+
+  const handleTimeBlur = (segment: TranscriptSegment, input: HTMLInputElement) => {
+    if (input.value === segment.timestamp) return;
+    const time = parseTime(input.value);
+    if (time === null) {
+      input.value = segment.timestamp;
+      return;
+    }
+    commit(updateSegment(transcript, segment.id, { startTime: time }));
+  };
+
+  // Splits at the caret, or at the middle when the caret isn't in this segment
+  const handleSplit = (segment: TranscriptSegment) => {
+    const box = textRefs.current.get(segment.id);
+    const text = box?.value ?? segment.text;
+    const caret = box && document.activeElement === box ? box.selectionStart : Math.floor(text.length / 2);
+    const withText = text === segment.text ? transcript : updateSegment(transcript, segment.id, { text });
+    commit(splitSegment(withText, segment.id, caret, duration));
+  };
+
+  const handleAddTerm = async () => {
+    const term = newTerm.replace(/\s+/g, ' ').trim();
+    if (!term) return;
+    if (glossary.some(t => t.toLowerCase() === term.toLowerCase())) {
+      setNewTerm('');
+      return;
+    }
+    try {
+      await addGlossaryTerm(term);
+      setGlossary(g => [...g, term]);
+      setNewTerm('');
+      setGlossaryError(null);
+    } catch (err) {
+      console.error("Failed to save glossary term:", err);
+      setGlossaryError("Couldn't save the term.");
+    }
+  };
+
+  const handleDeleteTerm = async (term: string) => {
+    try {
+      await deleteGlossaryTerm(term);
+      setGlossary(g => g.filter(t => t !== term));
+    } catch (err) {
+      console.error("Failed to delete glossary term:", err);
+    }
+  };
+
+  const toolClass = (active: boolean) => `flex items-center gap-1 px-2.5 py-1 border text-xs rounded-full transition-colors disabled:opacity-40 ${
+    active ? 'border-blue-200 bg-blue-50 text-blue-600' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+  }`;
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar pr-2 space-y-4" onKeyDown={handleKeyDown}>
+      {/* Tools Row */}
+      <div className="flex items-center gap-1.5 sticky top-0 bg-white/90 backdrop-blur-sm py-2 z-10 flex-wrap">
+        <button onClick={undo} disabled={past.length === 0} className={toolClass(false)} title="Undo (Ctrl+Z)">
+          <Undo2 size={12} />
+        </button>
+        <button onClick={redo} disabled={future.length === 0} className={toolClass(false)} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 size={12} />
+        </button>
+        <button onClick={() => setIsReplaceOpen(o => !o)} className={toolClass(isReplaceOpen)} title="Find and replace">
+          <Replace size={12} />
+          Replace
+        </button>
+        <button onClick={() => setIsGlossaryOpen(o => !o)} className={toolClass(isGlossaryOpen)} title="Terms AI transcription should spell your way">
+          <BookA size={12} />
+          Glossary
+        </button>
+        {isCorrected && (
+          <button
+            onClick={() => {
+              if (!window.confirm('Discard your corrections and go back to the original transcript?')) return;
+              setPast([]);
+              setFuture([]);
+              onRevert();
+            }}
+            className="flex items-center gap-1 px-2.5 py-1 text-xs text-gray-500 rounded-full hover:bg-gray-100 transition-colors"
+            title="Discard your corrections"
+          >
+            <RotateCcw size={12} />
+            Revert
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="ml-auto flex items-center gap-1 px-3 py-1 bg-black text-white text-xs rounded-full hover:bg-gray-800 transition-colors"
+        >
+          <Check size={12} />
+          Done
+        </button>
+      </div>
+
+      {/* Find and Replace */}
+      {isReplaceOpen && (
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2 text-xs">
+          <div className="flex items-center gap-2">
+            <input
+              autoFocus
+              value={find}
+              onChange={(e) => setFind(e.target.value)}
+              placeholder="Find"
+              className="min-w-0 flex-1 px-2 py-1 bg-white border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400"
+            />
+            <button
+              onClick={() => setMatchCase(m => !m)}
+              className={`px-1.5 py-1 border rounded-md font-mono ${matchCase ? 'border-blue-200 bg-blue-50 text-blue-600' : 'border-gray-200 text-gray-500 bg-white'}`}
+              title="Match case"
+            >
+              Aa
+            </button>
+            <span className="w-16 text-right text-gray-400 font-mono">
+              {find ? `${matchCount} found` : ''}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && matchCount > 0 && commit(replaceAll(transcript, find, replacement, { matchCase }))}
+              placeholder="Replace with"
+              className="min-w-0 flex-1 px-2 py-1 bg-white border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400"
+            />
+            <button
+              onClick={() => commit(replaceAll(transcript, find, replacement, { matchCase }))}
+              disabled={matchCount === 0}
+              className="px-2.5 py-1 bg-black text-white rounded-full hover:bg-gray-800 disabled:opacity-40 transition-colors"
+            >
+              Replace all
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Glossary */}
+      {isGlossaryOpen && (
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2 text-xs">
+          <p className="text-gray-500">
+            Names and technical terms sent along when a video without subtitles is transcribed, so the AI spells them your way.
+            Applies to videos analyzed from now on.
+          </p>
+          <div className="flex flex-wrap gap-1.5">
+            {glossary.map(term => (
+              <span key={term} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-white border border-gray-200 rounded-full text-gray-700">
+                {term}
+                <button
+                  onClick={() => {
+                    setFind(term);
+                    setIsReplaceOpen(true);
+                  }}
+                  className="text-gray-400 hover:text-blue-600"
+                  title={`Find "${term}" in this transcript`}
+                >
+                  <Replace size={10} />
+                </button>
+                <button onClick={() => handleDeleteTerm(term)} className="text-gray-400 hover:text-red-500" title="Remove">
+                  <X size={10} />
+                </button>
+              </span>
+            ))}
+            {glossary.length === 0 && <span className="text-gray-400">No terms yet.</span>}
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              value={newTerm}
+              onChange={(e) => setNewTerm(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddTerm()}
+              placeholder="Add a term, e.g. PyTorch"
+              className="min-w-0 flex-1 px-2 py-1 bg-white border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400"
+            />
+            <button
+              onClick={handleAddTerm}
+              disabled={!newTerm.trim()}
+              className="flex items-center gap-1 px-2.5 py-1 border border-gray-200 bg-white text-gray-600 rounded-full hover:bg-gray-50 disabled:opacity-40"
+            >
+              <Plus size={11} />
+              Add
+            </button>
+          </div>
+          {glossaryError && (
+            <div className="flex items-center gap-1.5 text-red-600">
+              <AlertCircle size={12} />
+              {glossaryError}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Segments */}
+      <div className="space-y-2">
+        {transcript.map((segment, index) => (
+          <div
+            key={segment.id}
+            className={`group p-2 -mx-2 rounded-lg border-l-2 ${index === activeIndex ? 'border-blue-400 bg-blue-50/40' : 'border-transparent'}`}
+          >
+            <div className="flex items-center gap-1 mb-1">
+              <input
+                // Remount when the time changes elsewhere (undo, neighbours)
+                key={segment.timestamp}
+                defaultValue={segment.timestamp}
+                onBlur={(e) => handleTimeBlur(segment, e.currentTarget)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="w-14 px-1 py-0.5 text-xs font-mono text-gray-500 bg-transparent border border-transparent rounded hover:border-gray-200 focus:border-blue-400 focus:bg-white focus:outline-none"
+                title="Start time (m:ss)"
+              />
+              <div className="ml-auto flex items-center gap-0.5 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                <button
+                  onClick={() => onSeek(segment.startTime)}
+                  className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100"
+                  title="Play from here"
+                >
+                  <Play size={12} />
+                </button>
+                <button
+                  // Keep the caret in the text box
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => handleSplit(segment)}
+                  className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100"
+                  title="Split at the cursor"
+                >
+                  <Split size={12} />
+                </button>
+                <button
+                  onClick={() => commit(mergeSegmentWithNext(transcript, segment.id))}
+                  disabled={index === transcript.length - 1}
+                  className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Merge with the next segment"
+                >
+                  <Merge size={12} />
+                </button>
+              </div>
+            </div>
+            <textarea
+              key={segment.text}
+              ref={(el) => {
+                if (el) textRefs.current.set(segment.id, el);
+                else textRefs.current.delete(segment.id);
+              }}
+              defaultValue={segment.text}
+              onBlur={(e) => handleTextBlur(segment, e.currentTarget.value)}
+              rows={Math.max(1, Math.ceil(segment.text.length / 48))}
+              className="w-full px-2 py-1 text-sm leading-relaxed text-gray-700 bg-transparent border border-transparent rounded-md resize-none hover:border-gray-200 focus:border-blue-400 focus:bg-white focus:outline-none focus:ring-2 focus:ring-blue-100"
+            />
+          </div>
+        ))}
+        {transcript.length === 0 && (
+          <div className="text-center text-gray-400 text-sm mt-10">No transcript to edit.</div>
+        )}
+      </div>
+
+      <p className="text-[11px] text-gray-400 pb-2">
+        {formatTime(duration)} · {transcript.length} segments. Corrections are saved on this device and used instead of the original transcript.
+      </p>
+    </div>
+  );
+};
+
+export default TranscriptEditor;
@@ -0,0 +1,461 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, Download, Bot, Mic, LocateFixed, PenTool, Bookmark, Upload, Loader2, FileText, AlertCircle, Languages, ChevronUp, ChevronDown, X, Pencil, CheckCircle2 } from 'lucide-react';
+import { TranscriptSegment, VideoData } from '../types';
+import { findActiveIndex } from '../utils/time';
+import { EXPORT_FORMATS, ExportFormat } from '../services/transcriptExport';
+import { alignTracks } from '../utils/alignTracks';
+import { searchTranscript } from '../utils/search';
+import MatchedText from './MatchedText';
+import TranscriptEditor from './TranscriptEditor';
+
+interface TranscriptPanelProps {
+  videoData: VideoData;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  onDownload: (format: ExportFormat) => void;
+  onQuote: (time: number, text: string) => void;
+  onImport: (file: File) => Promise<void>;
+  onSelectTrack: (trackId: string) => void;
+  // Start times of the segments matching the search, for the Timeline ticks
+  onSearchHitsChange: (times: number[]) => void;
+  // Turns the selected passage into a chapter
+  onCreateHighlight?: (startTime: number, endTime: number, text: string) => void;
+  // Enables the correction editor
+  onEditTranscript?: (transcript: TranscriptSegment[]) => void;
+  onRevertTranscript?: () => void;
+}
+
+interface QuoteSelection {
+  time: number;
+  endTime: number; // Start of the segment after the selection
+  text: string;
+}
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ videoData, currentTime, onSeek, onDownload, onQuote, onImport, onSelectTrack, onSearchHitsChange, onCreateHighlight, onEditTranscript, onRevertTranscript }) => {
+  const [followPlayback, setFollowPlayback] = useState(true);
+  const [selection, setSelection] = useState<QuoteSelection | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const activeRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const currentHitRef = useRef<HTMLDivElement>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [hitIndex, setHitIndex] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const tracks = videoData.subtitleTracks ?? [];
+  const [isBilingual, setIsBilingual] = useState(false);
+  const [secondaryTrackId, setSecondaryTrackId] = useState<string | null>(null);
+
+  // Default the second column to a track in another language than the primary one
+  const primaryTrack = tracks.find(t => t.id === videoData.activeTrackId);
+  const secondaryTrack = tracks.find(t => t.id === secondaryTrackId && t.id !== primaryTrack?.id)
+    ?? tracks.find(t => t.lang !== primaryTrack?.lang)
+    ?? tracks.find(t => t.id !== primaryTrack?.id);
+  const showBilingual = isBilingual && !!secondaryTrack;
+
+  const rows = useMemo(() => showBilingual
+    ? alignTracks(videoData.transcript, secondaryTrack!.transcript)
+    : videoData.transcript.map(segment => ({ segment, secondaryText: '' })),
+    [showBilingual, videoData.transcript, secondaryTrack]
+  );
+
+  const activeIndex = findActiveIndex(videoData.transcript, currentTime);
+
+  const hits = useMemo(
+    () => (isSearchOpen && query.trim() ? searchTranscript(videoData.transcript, query) : []),
+    [isSearchOpen, query, videoData.transcript]
+  );
+  const rangesById = useMemo(() => new Map(hits.map(hit => [hit.segment.id, hit.ranges])), [hits]);
+  const currentHit = hits[Math.min(hitIndex, hits.length - 1)];
+
+  useEffect(() => {
+    setHitIndex(0);
+    onSearchHitsChange(hits.map(hit => hit.segment.startTime));
+  }, [hits]);
+
+  // Ticks belong to this panel's search; clear them when the tab closes
+  useEffect(() => () => onSearchHitsChange([]), []);
+
+  useEffect(() => {
+    if (!currentHit) return;
+    setFollowPlayback(false);
+    currentHitRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [currentHit]);
+
+  const stepHit = (delta: number) => {
+    if (hits.length === 0) return;
+    setHitIndex(i => (Math.min(i, hits.length - 1) + delta + hits.length) % hits.length);
+  };
+
+  const openSearch = () => {
+    setIsSearchOpen(true);
+    setTimeout(() => searchInputRef.current?.select());
+  };
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    setQuery('');
+  };
+
+  // Keep the current segment in view while following playback
+  useEffect(() => {
+    if (!followPlayback || activeIndex < 0) return;
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeIndex, followPlayback]);
+
+  // Track a text selection inside the transcript so it can be turned into a note or a chapter
+  const handleMouseUp = () => {
+    const sel = window.getSelection();
+    const text = sel?.toString().trim();
+    const segmentStart = (node?: Node | null) => {
+      const segment = node?.parentElement?.closest<HTMLElement>('[data-start]');
+      return segment ? Number(segment.dataset.start) : null;
+    };
+    const anchor = segmentStart(sel?.anchorNode);
+    if (!text || anchor === null) {
+      setSelection(null);
+      return;
+    }
+    // Selections can run backwards
+    const focus = segmentStart(sel?.focusNode) ?? anchor;
+    const first = Math.min(anchor, focus);
+    const last = Math.max(anchor, focus);
+    const following = videoData.transcript.find(s => s.startTime > last);
+    setSelection({ time: first, endTime: following?.startTime ?? videoData.duration, text });
+  };
+
+  const handleSegmentClick = (time: number) => {
+    // Don't jump away while the user is selecting text
+    if (window.getSelection()?.toString()) return;
+    onSeek(time);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    setImportError(null);
+    setIsImporting(true);
+    try {
+      await onImport(file);
+    } catch (err: any) {
+      setImportError(err.message || "Failed to import subtitles.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (isEditing && onEditTranscript) {
+    return (
+      <TranscriptEditor
+        transcript={videoData.transcript}
+        duration={videoData.duration}
+        currentTime={currentTime}
+        isCorrected={!!videoData.isTranscriptCorrected}
+        onChange={onEditTranscript}
+        onRevert={() => onRevertTranscript?.()}
+        onSeek={onSeek}
+        onClose={() => setIsEditing(false)}
+      />
+    );
+  }
+
+  const accentClass = videoData.isTranscriptSimulated ? 'text-amber-500' :
+    videoData.isAiTranscribed ? 'text-purple-500' :
+    'text-blue-500';
+
+  return (
+    <div
+      className="h-full overflow-y-auto custom-scrollbar pr-2 space-y-6"
+      // Scrolling by hand means the user wants to read elsewhere
+      onWheel={() => setFollowPlayback(false)}
+      onTouchMove={() => setFollowPlayback(false)}
+    >
+      {/* Tools Row */}
+      <div className="flex items-center justify-between mb-4 sticky top-0 bg-white/90 backdrop-blur-sm py-2 z-10">
+        <div className="flex items-center gap-2">
+          <span className={`w-2 h-2 rounded-full ${
+            videoData.isTranscriptSimulated ? 'bg-amber-400' :
+            videoData.isAiTranscribed ? 'bg-purple-500' :
+            'bg-green-400'
+          }`}></span>
+          <button
+            onClick={() => (isSearchOpen ? closeSearch() : openSearch())}
+            className={`p-1 -m-1 rounded transition-colors ${isSearchOpen ? 'text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+            title="Search transcript"
+          >
+            <Search size={14} />
+          </button>
+          {videoData.isAiTranscribed && (
+            <span className="text-[10px] bg-purple-100 text-purple-700 border border-purple-200 px-1.5 py-0.5 rounded">
+              AI Transcribed
+            </span>
+          )}
+          {videoData.subtitleSource === 'asr' && (
+            <span className="text-[10px] bg-gray-100 text-gray-600 border border-gray-200 px-1.5 py-0.5 rounded">
+              Auto-generated
+            </span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {selection && (
+            <button
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onQuote(selection.time, selection.text);
+                setSelection(null);
+              }}
+              className="flex items-center gap-1 px-3 py-1 bg-black text-white text-xs rounded-full hover:bg-gray-800 transition-colors"
+              title="Create a note from the selected passage"
+            >
+              <PenTool size={12} />
+              Note
+            </button>
+          )}
+          {selection && onCreateHighlight && (
+            <button
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onCreateHighlight(selection.time, selection.endTime, selection.text);
+                setSelection(null);
+              }}
+              className="flex items-center gap-1 px-3 py-1 border border-gray-200 text-gray-600 text-xs rounded-full hover:bg-gray-50 transition-colors"
+              title="Create a chapter from the selected passage"
+            >
+              <Bookmark size={12} />
+              Chapter
+            </button>
+          )}
+          {onEditTranscript && videoData.transcript.length > 0 && (
+            <button
+              onClick={() => {
+                closeSearch();
+                setIsEditing(true);
+              }}
+              className="flex items-center gap-1 px-3 py-1 border border-gray-200 text-gray-600 text-xs rounded-full hover:bg-gray-50 transition-colors"
+              title="Correct the transcript"
+            >
+              <Pencil size={12} />
+              Edit
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".srt,.vtt,.ass,.ssa,.json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center gap-1 px-3 py-1 border border-gray-200 text-gray-600 text-xs rounded-full hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            title="Import subtitles (.srt, .vtt, .ass, Bilibili .json)"
+          >
+            {isImporting ? <Loader2 size={12} className="animate-spin" /> : <Upload size={12} />}
+            Import
+          </button>
+          <button
+            onClick={() => setFollowPlayback(f => !f)}
+            className={`flex items-center gap-1 px-3 py-1 border text-xs rounded-full transition-colors ${
+              followPlayback
+                ? 'border-blue-200 bg-blue-50 text-blue-600'
+                : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+            title="Follow playback"
+          >
+            <LocateFixed size={12} />
+            Follow
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setIsExportOpen(o => !o)}
+              className="flex items-center gap-1 px-3 py-1 border border-gray-200 text-gray-600 text-xs rounded-full hover:bg-gray-50 transition-colors"
+              title="Download Transcript"
+            >
+              <Download size={12} />
+              Export
+            </button>
+            {isExportOpen && (
+              <div className="absolute right-0 mt-1 w-44 bg-white border border-gray-100 rounded-xl shadow-lg py-1 z-20">
+                {EXPORT_FORMATS.map(({ format, label }) => (
+                  <button
+                    key={format}
+                    onClick={() => {
+                      onDownload(format);
+                      setIsExportOpen(false);
+                    }}
+                    className="w-full text-left px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Search Bar */}
+      {isSearchOpen && (
+        <div className="flex items-center gap-2 px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg focus-within:ring-2 focus-within:ring-blue-100 focus-within:border-blue-400">
+          <Search size={14} className="text-gray-400 flex-shrink-0" />
+          <input
+            ref={searchInputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') stepHit(e.shiftKey ? -1 : 1);
+              if (e.key === 'Escape') closeSearch();
+            }}
+            placeholder="Search transcript..."
+            className="min-w-0 flex-1 bg-transparent text-sm focus:outline-none"
+          />
+          {query.trim() && (
+            <span className="text-xs text-gray-400 font-mono flex-shrink-0">
+              {hits.length > 0 ? `${Math.min(hitIndex, hits.length - 1) + 1}/${hits.length}` : '0/0'}
+            </span>
+          )}
+          <button onClick={() => stepHit(-1)} disabled={hits.length === 0} className="p-0.5 text-gray-500 hover:text-gray-800 disabled:opacity-30" title="Previous match (Shift+Enter)">
+            <ChevronUp size={14} />
+          </button>
+          <button onClick={() => stepHit(1)} disabled={hits.length === 0} className="p-0.5 text-gray-500 hover:text-gray-800 disabled:opacity-30" title="Next match (Enter)">
+            <ChevronDown size={14} />
+          </button>
+          <button onClick={closeSearch} className="p-0.5 text-gray-400 hover:text-gray-700" title="Close search (Esc)">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {/* Subtitle Tracks */}
+      {tracks.length > 0 && (
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          <Languages size={14} className="text-gray-400 flex-shrink-0" />
+          <select
+            value={videoData.activeTrackId ?? ''}
+            onChange={(e) => onSelectTrack(e.target.value)}
+            className="min-w-0 flex-1 px-2 py-1 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none"
+            title="Subtitle track"
+          >
+            {!primaryTrack && <option value="" disabled>Imported file</option>}
+            {tracks.map(t => (
+              <option key={t.id} value={t.id}>{t.label}{t.isAi ? ' (AI)' : ''}</option>
+            ))}
+          </select>
+          {tracks.length > 1 && (
+            <>
+              <button
+                onClick={() => setIsBilingual(b => !b)}
+                className={`px-2 py-1 border rounded-lg transition-colors ${
+                  isBilingual ? 'border-blue-200 bg-blue-50 text-blue-600' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+                title="Show a second track alongside"
+              >
+                Bilingual
+              </button>
+              {isBilingual && secondaryTrack && (
+                <select
+                  value={secondaryTrack.id}
+                  onChange={(e) => setSecondaryTrackId(e.target.value)}
+                  className="min-w-0 flex-1 px-2 py-1 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none"
+                  title="Second track"
+                >
+                  {tracks.filter(t => t.id !== primaryTrack?.id).map(t => (
+                    <option key={t.id} value={t.id}>{t.label}{t.isAi ? ' (AI)' : ''}</option>
+                  ))}
+                </select>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Status Banners */}
+      {importError && (
+        <div className="bg-red-50 border border-red-100 rounded-lg p-3 text-xs text-red-700 flex items-start gap-2">
+          <AlertCircle size={14} className="mt-0.5 flex-shrink-0" />
+          <p>{importError}</p>
+        </div>
+      )}
+
+      {videoData.subtitleSource === 'imported' && (
+        <div className="bg-blue-50 border border-blue-100 rounded-lg p-3 text-xs text-blue-800 flex items-start gap-2">
+          <FileText size={14} className="mt-0.5 flex-shrink-0" />
+          <p>This transcript was imported from a local subtitle file. Highlights were regenerated from it.</p>
+        </div>
+      )}
+
+      {videoData.isTranscriptCorrected && (
+        <div className="bg-green-50 border border-green-100 rounded-lg p-3 text-xs text-green-800 flex items-start gap-2">
+          <CheckCircle2 size={14} className="mt-0.5 flex-shrink-0" />
+          <p>You corrected this transcript. Your version is used everywhere instead of the original.</p>
+        </div>
+      )}
+
+      {videoData.isTranscriptSimulated && (
+        <div className="bg-amber-50 border border-amber-100 rounded-lg p-3 text-xs text-amber-800 flex items-start gap-2">
+          <Bot size={14} className="mt-0.5 flex-shrink-0" />
+          <p>Official subtitles unavailable. This transcript is a simulation generated by AI based on video metadata.</p>
+        </div>
+      )}
+
+      {videoData.isAiTranscribed && (
+        <div className="bg-purple-50 border border-purple-100 rounded-lg p-3 text-xs text-purple-800 flex items-start gap-2">
+          <Mic size={14} className="mt-0.5 flex-shrink-0" />
+          <p>No official subtitles found. This transcript was generated by AI listening to the video audio.</p>
+        </div>
+      )}
+
+      <div className="space-y-6" onMouseUp={handleMouseUp}>
+        {rows.length > 0 ? (
+          rows.map(({ segment: item, secondaryText }, index) => {
+            const isActive = index === activeIndex;
+            const isCurrentHit = currentHit?.segment.id === item.id;
+            const ranges = rangesById.get(item.id);
+            return (
+              <div
+                key={item.id}
+                // The playing segment can also be the current hit; both scrolls need the node
+                ref={isCurrentHit || isActive ? (node: HTMLDivElement | null) => {
+                  if (isCurrentHit) currentHitRef.current = node;
+                  if (isActive) activeRef.current = node;
+                } : undefined}
+                data-start={item.startTime}
+                className={`group p-2 rounded-lg -mx-2 transition-colors cursor-pointer ${
+                  isActive ? 'bg-blue-50' : 'hover:bg-blue-50/50'
+                } ${isCurrentHit ? 'ring-2 ring-yellow-300' : ''}`}
+                onClick={() => handleSegmentClick(item.startTime)}
+              >
+                <div className="flex gap-3">
+                  <span className={`text-xs font-mono transition-opacity mt-1 ${accentClass} ${
+                    isActive ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                  }`}>{item.timestamp}</span>
+                  <div>
+                    <p className={`text-sm leading-relaxed ${isActive ? 'text-gray-900 font-normal' : 'text-gray-600 font-light'}`}>
+                      {ranges ? <MatchedText text={item.text} ranges={ranges} /> : item.text}
+                    </p>
+                    {secondaryText && (
+                      <p className="text-xs leading-relaxed text-gray-400 mt-1">{secondaryText}</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        ) : (
+          <div className="text-center text-gray-400 text-sm mt-10">
+            No transcript available.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+import { VideoData } from '../types';
+import { PlayerAdapter, createBilibiliPlayer, createYoutubePlayer } from '../services/player';
+
+interface VideoPlayerProps {
+  platform: VideoData['platform'];
+  videoId: string;
+  page?: number; // Bilibili part (1-based)
+  onReady: (player: PlayerAdapter | null) => void;
+  onTimeUpdate: (time: number) => void;
+}
+
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ platform, videoId, page = 1, onReady, onTimeUpdate }) => {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  // Keep the latest callbacks without recreating the player on every render
+  const callbacksRef = useRef({ onReady, onTimeUpdate });
+  callbacksRef.current = { onReady, onTimeUpdate };
+
+  useEffect(() => {
+    const iframe = iframeRef.current;
+    if (!iframe) return;
+
+    const player = platform === 'youtube' ? createYoutubePlayer(iframe) : createBilibiliPlayer(iframe);
+    const unsubscribe = player.onTimeUpdate(time => callbacksRef.current.onTimeUpdate(time));
+    callbacksRef.current.onReady(player);
+
+    return () => {
+      unsubscribe();
+      player.destroy();
+      callbacksRef.current.onReady(null);
+    };
+  }, [platform, videoId, page]);
+
+  if (platform === 'youtube') {
+    return (
+      <iframe
+        key={videoId}
+        ref={iframeRef}
+        src={`https://www.youtube.com/embed/${videoId}?enablejsapi=1&autoplay=1&origin=${encodeURIComponent(window.location.origin)}`}
+        className="w-full h-full"
+        frameBorder="0"
+        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+        allowFullScreen
+        title="YouTube video player"
+      ></iframe>
+    );
+  }
+
+  return (
+    <iframe
+      key={`${videoId}-${page}`}
+      ref={iframeRef}
+      id="bili-player"
+      src={`//player.bilibili.com/player.html?bvid=${videoId}&page=${page}&high_quality=1&danmaku=0&autoplay=1`}
+      className="w-full h-full"
+      scrolling="no"
+      frameBorder="0"
+      allow="autoplay; fullscreen"
+      allowFullScreen
+      title="Bilibili video player"
+    ></iframe>
+  );
+};
+
+export default VideoPlayer;
@@ -3,32 +3,83 @@
  * 
  * Capabilities:
  * 1. Support for Bilibili AND YouTube.
- * 2. Bilibili: Proxies official subtitles or downloads audio for Gemini ASR.
- * 3. YouTube: Fetches transcripts via scraper or downloads audio for Gemini ASR (NotebookLLM style).
+ * 2. Bilibili: Proxies official subtitles or downloads audio for AI ASR.
+ * 3. YouTube: Fetches transcripts via scraper or downloads audio for AI ASR (NotebookLLM style).
+ * 4. Caches analyses per platform + video ID in a JSON file (CACHE_FILE). Pass `force: true` to refresh.
+ * 5. Runs analyses as background jobs (POST /api/jobs) with progress streamed over SSE.
+ * 6. Transcribes long audio in overlapping windows (needs ffmpeg on PATH, or FFMPEG_PATH).
+ * 7. Owns every LLM call (highlights, chat, study cards, summaries), so the API key never reaches the browser.
+ *    LLM routes are rate limited per client (RATE_LIMIT_PER_MINUTE, RATE_LIMIT_ANALYSIS_PER_MINUTE).
+ *    Browsers may only call the API from the app's own origin (CORS_ORIGINS).
+ * 8. Cuts highlights into MP4/MP3 clips with ffmpeg (POST /api/clips; CLIP_SOURCE_FILE cuts a local file instead).
  * 
  * Usage:
  * 1. Install: npm install express cors node-fetch @google/genai dotenv ytdl-core youtube-transcript
  * 2. Set Env: export API_KEY=your_key
+ *    (or LLM_PROVIDER=openai LLM_BASE_URL=http://localhost:11434/v1 LLM_MODEL=llama3.1 for Ollama, LLM_PROVIDER=mock offline)
  * 3. Run: node server.js
  */
 
-require('dotenv').config();
-const express = require('express');
-const cors = require('cors');
-const { GoogleGenAI } = require('@google/genai');
-const ytdl = require('ytdl-core');
-const { YoutubeTranscript } = require('youtube-transcript');
-
-// Fix for ESM-only node-fetch in CommonJS
-const fetch = (...args) => import('node-fetch').then(({default: fetch}) => fetch(...args));
+import 'dotenv/config';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import express from 'express';
+import fetch from 'node-fetch';
+import cors from 'cors';
+import ytdl from 'ytdl-core';
+import { YoutubeTranscript } from 'youtube-transcript';
+import { parseSubtitleFile } from './server/subtitleParser.js';
+import { createAnalysisCache } from './server/analysisCache.js';
+import { createJobManager, throwIfCancelled } from './server/jobs.js';
+import { transcribeLongAudio, normalizeGlossary } from './server/transcription.js';
+import { createProvider } from './server/llm/index.js';
+import {
+  generateVideoContent,
+  generateHighlightsFromTranscript,
+  generateSuggestedQuestions,
+  buildChatInstruction
+} from './server/videoContent.js';
+import { createRateLimiter } from './server/rateLimit.js';
+import { createRetriever } from './server/retrieval.js';
+import { generateStudySet } from './server/study.js';
+import { generateSummary } from './server/summaries.js';
+import { ClipRequestError, planClips, cutClips, localClipSource, clipDefaults, createClipStore } from './server/clips.js';
+import { isFfmpegAvailable } from './server/ffmpeg.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 const app = express();
-const PORT = 3000;
+// The app itself is served by Vite on 3000 (vite.config.ts)
+const PORT = 3001;
+
+// Gemini by default; see server/llm/index.js for LLM_PROVIDER and friends
+const llm = createProvider(process.env, { fetch });
+
+// Embedding search when the provider supports it, BM25 otherwise
+const retriever = createRetriever({ embed: llm.embed && ((texts) => llm.embed(texts)) });
+
+const jobs = createJobManager();
+
+// Exported clips wait in a temp directory until the browser downloads them
+const clipStore = createClipStore();
+
+const analysisCache = createAnalysisCache({
+  file: process.env.CACHE_FILE || path.join(__dirname, '.cache', 'analysis.json')
+});
+
+// Analyses can download and transcribe whole videos, so they get a tighter budget than chat
+const llmLimiter = createRateLimiter({ limit: Number(process.env.RATE_LIMIT_PER_MINUTE) || 20 });
+const analysisLimiter = createRateLimiter({ limit: Number(process.env.RATE_LIMIT_ANALYSIS_PER_MINUTE) || 5 });
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Only the app itself may call the API from a browser; other sites would spend the LLM quota.
+// CORS_ORIGINS is a comma-separated list, defaulting to the Vite dev server on port 3000 (vite.config.ts).
+const allowedOrigins = (process.env.CORS_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
 
-app.use(cors());
-app.use(express.json());
+app.use(cors({ origin: allowedOrigins }));
+app.use(express.json({ limit: '5mb' })); // Subtitle uploads can be large
 
 // ------------------------------------------------------------------
 // Helpers
@@ -40,6 +91,45 @@ function formatTime(seconds) {
   return `${m}:${s.toString().padStart(2, '0')}`;
 }
 
+// Map parsed subtitle cues to the frontend TranscriptSegment shape
+function toTranscript(cues, idPrefix) {
+  return cues.map((cue, index) => ({
+    id: `${idPrefix}${index}`,
+    startTime: cue.startTime,
+    text: cue.text,
+    timestamp: formatTime(cue.startTime)
+  }));
+}
+
+// Report audio download bytes, at most every 512KB so SSE clients aren't flooded
+const DOWNLOAD_REPORT_BYTES = 512 * 1024;
+
+function reportDownload(progress, downloaded, total) {
+  const mb = (downloaded / 1024 / 1024).toFixed(1);
+  const message = total
+    ? `Downloading audio (${mb} / ${(total / 1024 / 1024).toFixed(1)} MB)...`
+    : `Downloading audio (${mb} MB)...`;
+  progress('download', message, { current: downloaded, total: total || undefined });
+}
+
+// Read a node-fetch body stream into a Buffer, reporting bytes as they arrive
+async function downloadWithProgress(body, totalBytes, progress) {
+  const chunks = [];
+  let downloaded = 0;
+  let lastReported = 0;
+  reportDownload(progress, 0, totalBytes);
+  for await (const chunk of body) {
+    chunks.push(chunk);
+    downloaded += chunk.length;
+    if (downloaded - lastReported >= DOWNLOAD_REPORT_BYTES) {
+      reportDownload(progress, downloaded, totalBytes);
+      lastReported = downloaded;
+    }
+  }
+  reportDownload(progress, downloaded, totalBytes);
+  return Buffer.concat(chunks);
+}
+
 // Detect Platform
 function detectPlatform(url) {
   if (url.includes('bilibili.com') || url.startsWith('BV')) return 'bilibili';
@@ -47,6 +137,27 @@ function detectPlatform(url) {
   return 'unknown';
 }
 
+// Prefer human-made subtitles; AI tracks are often machine translations
+function pickDefaultTrack(tracks) {
+  return tracks.find(t => !t.isAi) || tracks[0];
+}
+
+// Auto-generated tracks are reported as 'asr' so the UI doesn't present them as official subtitles
+function trackSource(track) {
+  return track.isAi ? 'asr' : 'official';
+}
+
+// Bilibili part number from `?p=N` (1-based)
+function extractPage(url) {
+  const match = url.match(/[?&]p=(\d+)/);
+  return match ? Math.max(1, parseInt(match[1], 10)) : 1;
+}
+
+// Each Bilibili part is analyzed and cached separately; part 1 keeps the bare BV ID
+function cacheIdFor(id, page) {
+  return page > 1 ? `${id}_p${page}` : id;
+}
+
 // Extract ID based on platform
 function extractId(url, platform) {
   if (platform === 'bilibili') {
@@ -60,159 +171,218 @@ function extractId(url, platform) {
 }
 
 // ------------------------------------------------------------------
-// Shared Logic: Gemini Audio Transcription
+// Shared Logic: Audio Transcription
 // ------------------------------------------------------------------
 
-async function transcribeAudioWithGemini(audioBuffer) {
-  console.log("Starting Gemini 1.5 Flash Transcription...");
-  const model = "gemini-1.5-flash";
-  const prompt = `
-    You are a professional transcriber. 
-    Listen to the provided audio from a video.
-    Generate a strictly formatted JSON transcript.
-    
-    Requirements:
-    1. Output must be a JSON object with a key "transcript".
-    2. "transcript" is an array of objects.
-    3. Each object must have:
-       - "startTime": number (start time in seconds, precise to 1 decimal)
-       - "text": string (the transcribed text)
-    4. Segment the text naturally by sentence or roughly every 5-15 seconds.
-    5. Do not include markdown formatting. Return raw JSON only.
-  `;
-
-  const base64Audio = Buffer.from(audioBuffer).toString('base64');
-
+// Returns cues `{ startTime, text }` relative to the start of `audioBuffer`.
+// `glossary` lists names and terms the user wants spelled their way.
+async function transcribeAudioWithLLM(audioBuffer, mimeType = "audio/mp3", glossary = []) {
+  console.log(`Starting ${llm.name} transcription...`);
   try {
-    const result = await ai.models.generateContent({
-        model: model,
-        contents: {
-            parts: [
-                { inlineData: { mimeType: "audio/mp3", data: base64Audio } },
-                { text: prompt }
-            ]
-        },
-        config: {
-            responseMimeType: "application/json"
-        }
-    });
-
-    const text = result.response.text();
-    const json = JSON.parse(text);
-    
-    return json.transcript.map((item, index) => ({
-        id: `ai-t${index}`,
-        startTime: item.startTime,
-        text: item.text,
-        timestamp: formatTime(item.startTime)
-    }));
-
+    return await llm.transcribeAudio(audioBuffer, mimeType, { glossary });
   } catch (error) {
-    console.error("Gemini Transcription Failed:", error);
+    console.error("AI Transcription Failed:", error);
     throw new Error("AI Transcription failed");
   }
 }
 
+// Transcribe a whole downloaded track window by window (see server/transcription.js)
+async function transcribeAudio(audioBuffer, { duration, mimeType, glossary, progress, signal }) {
+  const cues = await transcribeLongAudio(audioBuffer, {
+    duration,
+    mimeType,
+    transcribe: (chunk, chunkMimeType) => transcribeAudioWithLLM(chunk, chunkMimeType, glossary),
+    progress,
+    signal
+  });
+  return toTranscript(cues, 'ai-t');
+}
+
 // ------------------------------------------------------------------
 // Platform Specific Logic
 // ------------------------------------------------------------------
 
 // --- BILIBILI LOGIC ---
-async function handleBilibili(bvid, res) {
+// Bilibili's CDN rejects media requests without these
+const BILIBILI_MEDIA_HEADERS = { 'Referer': 'https://www.bilibili.com', 'User-Agent': 'Mozilla/5.0' };
+
+// DASH manifest (separate video and audio streams) of one part
+async function fetchBilibiliDash(bvid, cid, { signal } = {}) {
+    const playRes = await fetch(`https://api.bilibili.com/x/player/playurl?bvid=${bvid}&cid=${cid}&fnval=16`, { signal });
+    const playJson = await playRes.json();
+    if (!playJson.data || !playJson.data.dash) throw new Error("No DASH streams");
+    return playJson.data.dash;
+}
+
+async function handleBilibili(bvid, { page = 1, glossary = [], progress = () => {}, signal } = {}) {
     // 1. Get Metadata
-    const viewResponse = await fetch(`https://api.bilibili.com/x/web-interface/view?bvid=${bvid}`);
+    progress('metadata', 'Fetching video metadata...');
+    const viewResponse = await fetch(`https://api.bilibili.com/x/web-interface/view?bvid=${bvid}`, { signal });
     const viewJson = await viewResponse.json();
     if (viewJson.code !== 0) throw new Error(`Bilibili API Error: ${viewJson.message}`);
     
     const videoData = viewJson.data;
-    const cid = videoData.cid;
+
+    // Multi-part (分P) videos list every part with its own cid; single videos have one page
+    const pages = (videoData.pages || []).map(p => ({
+      cid: p.cid,
+      page: p.page,
+      part: p.part,
+      duration: p.duration
+    }));
+    const selectedPage = pages.find(p => p.page === page);
+    if (pages.length > 0 && !selectedPage) throw new Error(`Part ${page} does not exist (video has ${pages.length} parts)`);
+    const cid = selectedPage ? selectedPage.cid : videoData.cid;
+    const duration = selectedPage ? selectedPage.duration : videoData.duration;
 
     let transcript = [];
+    let tracks = [];
+    let activeTrackId;
     let source = 'none';
 
     // 2. Try Official Subtitles
-    const playerResponse = await fetch(`https://api.bilibili.com/x/player/v2?bvid=${bvid}&cid=${cid}`);
+    progress('subtitles', 'Looking for official subtitles...');
+    const playerResponse = await fetch(`https://api.bilibili.com/x/player/v2?bvid=${bvid}&cid=${cid}`, { signal });
     const playerJson = await playerResponse.json();
 
-    if (playerJson.data?.subtitle?.subtitles?.length > 0) {
-      const subUrl = playerJson.data.subtitle.subtitles[0].subtitle_url;
-      const secureUrl = subUrl.startsWith('//') ? `https:${subUrl}` : subUrl;
-      const subRes = await fetch(secureUrl);
+    // Fetch every track so the frontend can switch languages or show two side by side
+    const subtitles = playerJson.data?.subtitle?.subtitles || [];
+    for (const sub of subtitles) {
+      if (!sub.subtitle_url) continue; // Some tracks are only visible to logged-in users
+      const secureUrl = sub.subtitle_url.startsWith('//') ? `https:${sub.subtitle_url}` : sub.subtitle_url;
+      const subRes = await fetch(secureUrl, { signal });
       const subData = await subRes.json();
-      
-      transcript = subData.body.map((item, index) => ({
-        id: `t${index}`,
-        startTime: item.from,
-        text: item.content,
-        timestamp: formatTime(item.from)
-      }));
-      source = 'official';
+      const trackId = `bili-${sub.lan}`;
+
+      tracks.push({
+        id: trackId,
+        lang: sub.lan.replace(/^ai-/, ''),
+        label: sub.lan_doc || sub.lan,
+        // AI tracks (speech recognition or machine translation) are prefixed "ai-"
+        isAi: sub.lan.startsWith('ai-') || sub.ai_type > 0,
+        transcript: subData.body.map((item, index) => ({
+          id: `${trackId}-t${index}`,
+          startTime: item.from,
+          text: item.content,
+          timestamp: formatTime(item.from)
+        }))
+      });
+    }
+
+    if (tracks.length > 0) {
+      const track = pickDefaultTrack(tracks);
+      transcript = track.transcript;
+      activeTrackId = track.id;
+      source = trackSource(track);
     } 
     // 3. Fallback: Download Audio & Transcribe
     else {
         try {
-            const apiUrl = `https://api.bilibili.com/x/player/playurl?bvid=${bvid}&cid=${cid}&fnval=16`;
-            const playRes = await fetch(apiUrl);
-            const playJson = await playRes.json();
-            if (!playJson.data.dash) throw new Error("No DASH audio");
-            
-            const audioUrl = playJson.data.dash.audio[0].baseUrl || playJson.data.dash.audio[0].backup_url[0];
+            const dash = await fetchBilibiliDash(bvid, cid, { signal });
+            const audioUrl = dash.audio[0].baseUrl || dash.audio[0].backup_url[0];
             
             const audioRes = await fetch(audioUrl, {
-                headers: { 'Referer': 'https://www.bilibili.com', 'User-Agent': 'Mozilla/5.0' }
+                headers: BILIBILI_MEDIA_HEADERS,
+                signal
+            });
+            const audioBuffer = await downloadWithProgress(
+                audioRes.body,
+                Number(audioRes.headers.get('content-length')) || 0,
+                progress
+            );
+
+            throwIfCancelled(signal);
+            transcript = await transcribeAudio(audioBuffer, {
+                duration,
+                mimeType: 'audio/mp4', // DASH audio is fragmented MP4 (m4a)
+                glossary,
+                progress,
+                signal
             });
-            const audioBuffer = await audioRes.arrayBuffer();
-
-            // Safety clip for demo (Gemini REST limit)
-            const bufferToUse = audioBuffer.byteLength > 20 * 1024 * 1024 ? audioBuffer.slice(0, 20 * 1024 * 1024) : audioBuffer;
-            
-            transcript = await transcribeAudioWithGemini(bufferToUse);
             source = 'ai_transcription';
         } catch (err) {
+            throwIfCancelled(signal);
             console.error("Bili Audio fallback failed:", err);
         }
     }
 
-    res.json({
+    return {
       platform: 'bilibili',
       bvid: videoData.bvid,
       title: videoData.title,
       author: videoData.owner.name,
       category: videoData.tname,
-      duration: videoData.duration,
+      duration,
       thumbnail: videoData.pic,
       description: videoData.desc,
+      page: selectedPage ? selectedPage.page : 1,
+      pages,
       transcript: transcript,
+      subtitleTracks: tracks,
+      activeTrackId,
       subtitleSource: source
-    });
+    };
 }
 
 // --- YOUTUBE LOGIC ---
-async function handleYoutube(videoId, res) {
+async function handleYoutube(videoId, { glossary = [], progress = () => {}, signal } = {}) {
     console.log(`Processing YouTube ID: ${videoId}`);
 
     // 1. Get Metadata using ytdl-core
+    progress('metadata', 'Fetching video metadata...');
     const info = await ytdl.getInfo(videoId);
     const videoDetails = info.videoDetails;
 
     let transcript = [];
+    let tracks = [];
+    let activeTrackId;
     let source = 'none';
 
     // 2. Try fetching transcript (official or auto-generated)
+    throwIfCancelled(signal);
+    progress('subtitles', 'Looking for YouTube captions...');
     try {
         console.log("Attempting to fetch YouTube transcript...");
-        const ytTranscript = await YoutubeTranscript.fetchTranscript(videoId);
-        
-        transcript = ytTranscript.map((item, index) => ({
-            id: `yt-t${index}`,
+        const toSegments = (ytTranscript, trackId) => ytTranscript.map((item, index) => ({
+            id: `${trackId}-t${index}`,
             startTime: item.offset / 1000, // library returns ms
             text: item.text,
             timestamp: formatTime(item.offset / 1000)
         }));
-        source = 'official'; // YoutubeTranscript fetches what's available (CC or Auto)
+
+        // The player response lists every caption track; "asr" tracks are auto-generated
+        const captionTracks = info.player_response?.captions?.playerCaptionsTracklistRenderer?.captionTracks || [];
+        for (const caption of captionTracks) {
+            const trackId = `yt-${caption.vssId || caption.languageCode}`;
+            try {
+                const ytTranscript = await YoutubeTranscript.fetchTranscript(videoId, { lang: caption.languageCode });
+                tracks.push({
+                    id: trackId,
+                    lang: caption.languageCode,
+                    label: caption.name?.simpleText || caption.languageCode,
+                    isAi: caption.kind === 'asr',
+                    transcript: toSegments(ytTranscript, trackId)
+                });
+            } catch (trackErr) {
+                console.log(`Caption track ${caption.languageCode} unavailable: ${trackErr.message}`);
+            }
+        }
+
+        if (tracks.length > 0) {
+            const track = pickDefaultTrack(tracks);
+            transcript = track.transcript;
+            activeTrackId = track.id;
+            source = trackSource(track);
+        } else {
+            // No track list (or none fetchable): take whatever the scraper finds
+            transcript = toSegments(await YoutubeTranscript.fetchTranscript(videoId), 'yt');
+            // Without a track list the kind is unknown; it can only be ASR if every listed track is
+            const hasManualTrack = captionTracks.length === 0 || captionTracks.some(caption => caption.kind !== 'asr');
+            source = hasManualTrack ? 'official' : 'asr';
+        }
         console.log("YouTube transcript found.");
     } catch (e) {
-        console.log("No text transcript found via scraper. Falling back to Audio Download + Gemini ASR...");
+        console.log("No text transcript found via scraper. Falling back to Audio Download + AI ASR...");
         
         // 3. Fallback: Download Audio & Transcribe (NotebookLLM style)
         try {
@@ -223,23 +393,44 @@ async function handleYoutube(videoId, res) {
                 quality: 'lowestaudio', 
                 filter: 'audioonly' 
             });
+            let audioMimeType = 'audio/webm';
+            audioStream.on('info', (_info, format) => {
+                audioMimeType = (format.mimeType || audioMimeType).split(';')[0];
+            });
+            const abortDownload = () => audioStream.destroy(new Error('Download cancelled'));
+            signal?.addEventListener('abort', abortDownload);
 
             // Stream to buffer
             const chunks = [];
-            for await (const chunk of audioStream) {
-                chunks.push(chunk);
+            let lastReported = 0;
+            audioStream.on('progress', (_chunkLength, downloaded, total) => {
+                if (downloaded - lastReported < DOWNLOAD_REPORT_BYTES && downloaded !== total) return;
+                lastReported = downloaded;
+                reportDownload(progress, downloaded, total);
+            });
+            try {
+                for await (const chunk of audioStream) {
+                    chunks.push(chunk);
+                }
+            } finally {
+                signal?.removeEventListener('abort', abortDownload);
             }
             const audioBuffer = Buffer.concat(chunks);
             
             console.log(`YouTube Audio Downloaded: ${(audioBuffer.byteLength / 1024 / 1024).toFixed(2)}MB`);
 
-            // Clip for demo limits
-            const bufferToUse = audioBuffer.byteLength > 20 * 1024 * 1024 ? audioBuffer.slice(0, 20 * 1024 * 1024) : audioBuffer;
-
-            transcript = await transcribeAudioWithGemini(bufferToUse);
+            throwIfCancelled(signal);
+            transcript = await transcribeAudio(audioBuffer, {
+                duration: parseInt(videoDetails.lengthSeconds),
+                mimeType: audioMimeType,
+                glossary,
+                progress,
+                signal
+            });
             source = 'ai_transcription';
 
         } catch (audioErr) {
+            throwIfCancelled(signal);
             console.error("YouTube Audio fallback failed:", audioErr.message);
         }
     }
@@ -247,7 +438,7 @@ async function handleYoutube(videoId, res) {
     // Map YouTube category ID to string (simplified)
     const categoryMap = { '10': 'Music', '20': 'Gaming', '27': 'Education', '28': 'Science & Tech' };
 
-    res.json({
+    return {
         platform: 'youtube',
         bvid: videoDetails.videoId, // map videoId to bvid field for frontend consistency
         title: videoDetails.title,
@@ -257,29 +448,153 @@ async function handleYoutube(videoId, res) {
         thumbnail: videoDetails.thumbnails[videoDetails.thumbnails.length - 1].url, // Highest res
         description: videoDetails.description,
         transcript: transcript,
+        subtitleTracks: tracks,
+        activeTrackId,
         subtitleSource: source
-    });
+    };
+}
+
+// --- CLIP SOURCES ---
+// ffmpeg inputs for clip export: `{ video, audio, headers, duration }` (see server/clips.js)
+
+// H.264 plays everywhere; fall back to whatever else Bilibili offers (HEVC, AV1)
+function pickDashVideo(streams) {
+    const playable = streams.filter(s => s.id <= 80); // Up to 1080p, which needs no login
+    const avc = playable.filter(s => (s.codecs || '').startsWith('avc'));
+    const candidates = avc.length > 0 ? avc : playable.length > 0 ? playable : streams;
+    return candidates.reduce((best, s) => (s.bandwidth > best.bandwidth ? s : best));
+}
+
+async function resolveBilibiliClipSource(bvid, page) {
+    const viewJson = await (await fetch(`https://api.bilibili.com/x/web-interface/view?bvid=${bvid}`)).json();
+    if (viewJson.code !== 0) throw new Error(`Bilibili API Error: ${viewJson.message}`);
+    const part = (viewJson.data.pages || []).find(p => p.page === page);
+    const dash = await fetchBilibiliDash(bvid, part ? part.cid : viewJson.data.cid);
+    const video = pickDashVideo(dash.video || []);
+    const audio = (dash.audio || []).reduce((best, s) => (!best || s.bandwidth > best.bandwidth ? s : best), null);
+    if (!audio) throw new Error('No DASH audio');
+    return {
+        video: video.baseUrl || video.backup_url[0],
+        audio: audio.baseUrl || audio.backup_url[0],
+        headers: Object.entries(BILIBILI_MEDIA_HEADERS).map(([name, value]) => `${name}: ${value}\r\n`).join(''),
+        duration: part ? part.duration : viewJson.data.duration
+    };
+}
+
+async function resolveYoutubeClipSource(videoId) {
+    const info = await ytdl.getInfo(videoId);
+    const video = ytdl.chooseFormat(info.formats, { quality: 'highestvideo', filter: f => f.hasVideo && !f.hasAudio && f.container === 'mp4' });
+    const audio = ytdl.chooseFormat(info.formats, { quality: 'highestaudio', filter: 'audioonly' });
+    return { video: video.url, audio: audio.url, duration: parseInt(info.videoDetails.lengthSeconds) };
+}
+
+// CLIP_SOURCE_FILE cuts every clip from one local media file instead, for trying the pipeline offline
+function resolveClipSource(platform, id, page) {
+    const local = localClipSource();
+    if (local) return local;
+    return platform === 'bilibili' ? resolveBilibiliClipSource(id, page) : resolveYoutubeClipSource(id);
 }
 
 // ------------------------------------------------------------------
 // API Route
 // ------------------------------------------------------------------
 
-app.post('/api/analyze', async (req, res) => {
+const analyzers = {
+  bilibili: handleBilibili,
+  youtube: handleYoutube
+};
+
+// Resolve a pasted URL to a supported platform + video ID (+ Bilibili part)
+function resolveVideo(url) {
+  const platform = detectPlatform(url || '');
+  if (!analyzers[platform]) return { error: 'Unsupported Platform' };
+
+  const id = extractId(url, platform);
+  if (!id) return { error: 'Invalid Video URL' };
+  const page = platform === 'bilibili' ? extractPage(url) : 1;
+  return { platform, id, page };
+}
+
+// Highlight generation failures shouldn't fail the analysis; the video is still usable without chapters
+async function generateHighlights(video, transcript) {
   try {
-    const { url } = req.body;
-    const platform = detectPlatform(url);
-    const id = extractId(url, platform);
+    return await generateHighlightsFromTranscript(llm, video, transcript);
+  } catch (error) {
+    console.error('Highlight generation failed:', error);
+    return [];
+  }
+}
 
-    if (!id) return res.status(400).json({ error: 'Invalid Video URL' });
+// Optional like highlights: the chat falls back to generic starter questions
+async function suggestQuestions(video, highlights, transcript) {
+  try {
+    return await generateSuggestedQuestions(llm, { title: video.title, highlights, transcript });
+  } catch (error) {
+    console.error('Suggested question generation failed:', error);
+    return [];
+  }
+}
 
-    if (platform === 'bilibili') {
-        await handleBilibili(id, res);
-    } else if (platform === 'youtube') {
-        await handleYoutube(id, res);
+async function simulateContent(video) {
+  try {
+    return await generateVideoContent(llm, video);
+  } catch (error) {
+    console.error('Failed to simulate video content:', error);
+    return { highlights: [], transcript: [] };
+  }
+}
+
+// Cached analyses are returned as-is unless `force` is true. The glossary only
+// affects videos that get transcribed, i.e. uncached ones without subtitles.
+async function runAnalysis({ platform, id, page, force, glossary }, { progress = () => {}, signal } = {}) {
+  const cacheId = cacheIdFor(id, page);
+  const analyze = () => analyzers[platform](id, { page, glossary, progress, signal });
+  const { entry, cached } = await analysisCache.getOrAnalyze(platform, cacheId, analyze, {
+    force,
+    // Don't pin a failed subtitle/ASR lookup; the next request should retry it
+    shouldCache: (data) => data.subtitleSource !== 'none'
+  });
+  if (cached) console.log(`Cache hit for ${entry.key}`);
+
+  let data = entry.data;
+  let highlights = entry.highlights;
+  if (!Array.isArray(highlights)) {
+    throwIfCancelled(signal);
+    if (data.transcript.length > 0) {
+      progress('highlights', 'Generating highlights from transcript...');
+      highlights = await generateHighlights(data, data.transcript);
+      if (highlights.length > 0) await analysisCache.update(platform, cacheId, { highlights });
     } else {
-        res.status(400).json({ error: 'Unsupported Platform' });
+      // Nothing to chapter: simulate a transcript from the metadata (never cached, see shouldCache)
+      progress('highlights', 'No transcript found. Simulating highlights from metadata...');
+      const simulated = await simulateContent(data);
+      data = { ...data, transcript: simulated.transcript, isTranscriptSimulated: true };
+      highlights = simulated.highlights;
     }
+  }
+
+  let suggestedQuestions = entry.suggestedQuestions;
+  if (!Array.isArray(suggestedQuestions)) {
+    throwIfCancelled(signal);
+    progress('highlights', 'Suggesting questions...');
+    suggestedQuestions = await suggestQuestions(data, highlights, data.transcript);
+    if (suggestedQuestions.length > 0) await analysisCache.update(platform, cacheId, { suggestedQuestions });
+  }
+  return { ...data, highlights, suggestedQuestions, summary: entry.summary || null, cached };
+}
+
+// Body `{ url, force, glossary }`. Blocks until the analysis is complete.
+app.post('/api/analyze', analysisLimiter.middleware, async (req, res) => {
+  try {
+    const { url, force, glossary } = req.body;
+    const video = resolveVideo(url);
+    if (video.error) return res.status(400).json({ error: video.error });
+
+    res.json(await runAnalysis({
+      ...video,
+      force: force === true || req.query.force === 'true',
+      glossary: normalizeGlossary(glossary)
+    }));
 
   } catch (error) {
     console.error('Server Error:', error);
@@ -287,6 +602,301 @@ app.post('/api/analyze', async (req, res) => {
   }
 });
 
+// ------------------------------------------------------------------
+// Job Routes
+// ------------------------------------------------------------------
+
+// Body `{ url, force, glossary }`. Starts the analysis in the background and returns its ID.
+app.post('/api/jobs', analysisLimiter.middleware, (req, res) => {
+  const { url, force, glossary } = req.body;
+  const video = resolveVideo(url);
+  if (video.error) return res.status(400).json({ error: video.error });
+
+  const glossaryTerms = normalizeGlossary(glossary);
+  const job = jobs.create(({ progress, signal }) =>
+    runAnalysis({ ...video, force: force === true, glossary: glossaryTerms }, { progress, signal })
+  );
+  res.status(202).json({ id: job.id });
+});
+
+// Server-Sent Events: progress, then one of done / error / cancelled
+app.get('/api/jobs/:id/events', (req, res) => {
+  if (!jobs.get(req.params.id)) return res.status(404).json({ error: 'Job not found' });
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  // Comment lines keep proxies from closing an idle stream during long transcriptions
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+  const send = (event) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+    if (event.type !== 'progress') {
+      clearInterval(heartbeat);
+      res.end();
+    }
+  };
+  const unsubscribe = jobs.subscribe(req.params.id, send);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+app.delete('/api/jobs/:id', (req, res) => {
+  if (!jobs.cancel(req.params.id)) return res.status(404).json({ error: 'No running job with that ID' });
+  res.json({ ok: true });
+});
+
+// ------------------------------------------------------------------
+// Cache Routes
+// ------------------------------------------------------------------
+
+app.get('/api/cache', (req, res) => {
+  res.json({ entries: analysisCache.list() });
+});
+
+app.get('/api/cache/:platform/:id', (req, res) => {
+  const entry = analysisCache.get(req.params.platform, req.params.id);
+  if (!entry) return res.status(404).json({ error: 'Not cached' });
+  res.json(entry);
+});
+
+// Store edited highlights so the next open can skip generation
+app.put('/api/cache/:platform/:id/highlights', llmLimiter.middleware, async (req, res) => {
+  const { highlights } = req.body;
+  if (!Array.isArray(highlights)) return res.status(400).json({ error: 'highlights must be an array' });
+
+  const entry = await analysisCache.update(req.params.platform, req.params.id, { highlights });
+  if (!entry) return res.status(404).json({ error: 'Not cached' });
+  res.json({ ok: true });
+});
+
+app.delete('/api/cache/:platform/:id', llmLimiter.middleware, async (req, res) => {
+  const deleted = await analysisCache.remove(req.params.platform, req.params.id);
+  if (!deleted) return res.status(404).json({ error: 'Not cached' });
+  res.json({ ok: true });
+});
+
+// Wiping every analysis is opt-in (ALLOW_CACHE_CLEAR=true): re-analyzing costs downloads and LLM quota
+app.delete('/api/cache', analysisLimiter.middleware, async (req, res) => {
+  if (process.env.ALLOW_CACHE_CLEAR !== 'true') {
+    return res.status(403).json({ error: 'Clearing the whole cache is disabled (set ALLOW_CACHE_CLEAR=true)' });
+  }
+  const count = await analysisCache.clear();
+  res.json({ ok: true, evicted: count });
+});
+
+// Parse an uploaded subtitle file (.srt, .vtt, .ass or Bilibili BCC .json)
+app.post('/api/subtitles', async (req, res) => {
+  const { platform, id, filename, content } = req.body;
+  if (typeof content !== 'string' || !content.trim()) {
+    return res.status(400).json({ error: 'Missing subtitle content' });
+  }
+
+  try {
+    const { format, cues } = parseSubtitleFile(filename, content);
+    const transcript = toTranscript(cues, 'imp-t');
+    console.log(`Imported ${cues.length} ${format} cues for ${platform}:${id}`);
+
+    // Attach to the cached analysis so reopening the video keeps the imported text
+    const cached = platform && id ? analysisCache.get(platform, id) : null;
+    if (cached) {
+      await analysisCache.update(platform, id, {
+        data: { ...cached.data, transcript, subtitleSource: 'imported' },
+        highlights: null,
+        suggestedQuestions: null,
+        summary: null
+      });
+    }
+
+    res.json({ format, transcript, subtitleSource: 'imported' });
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// ------------------------------------------------------------------
+// LLM Routes
+// ------------------------------------------------------------------
+
+// Body `{ platform, id, transcript, video, force }`.
+// Chapters a transcript: the given one (e.g. just imported), else the cached one. Videos that
+// were never cached (the client's offline fallback) pass their metadata as `video`. Without
+// any transcript, a simulated transcript is returned along with the highlights.
+// Suggested chat questions are regenerated alongside.
+app.post('/api/highlights', llmLimiter.middleware, async (req, res) => {
+  const { platform, id, transcript, force } = req.body;
+  const cached = platform && id ? analysisCache.get(platform, id) : null;
+  const video = cached ? cached.data : req.body.video;
+  if (!video || !video.title) return res.status(400).json({ error: 'Unknown video. Analyze it first or pass its metadata.' });
+
+  try {
+    if (cached && Array.isArray(cached.highlights) && !transcript && force !== true) {
+      return res.json({ highlights: cached.highlights, suggestedQuestions: cached.suggestedQuestions || [], cached: true });
+    }
+
+    const source = Array.isArray(transcript) ? transcript : (video.transcript || []);
+    if (source.length === 0) {
+      const simulated = await generateVideoContent(llm, video);
+      const suggestedQuestions = await suggestQuestions(video, simulated.highlights, simulated.transcript);
+      return res.json({ ...simulated, suggestedQuestions, simulated: true });
+    }
+
+    const highlights = await generateHighlightsFromTranscript(llm, video, source);
+    const suggestedQuestions = await suggestQuestions(video, highlights, source);
+    // The old summary was organized around the old chapters
+    if (cached && highlights.length > 0) await analysisCache.update(platform, id, { highlights, suggestedQuestions, summary: null });
+    res.json({ highlights, suggestedQuestions });
+  } catch (error) {
+    console.error('Highlight generation failed:', error);
+    res.status(502).json({ error: 'Failed to generate highlights' });
+  }
+});
+
+// Body `{ title, transcript, history, message }`, where history is `{ role: 'user' | 'model', text }[]`.
+// The server keeps no chat state; each turn retrieves the transcript passages relevant to it.
+// The reply streams back as server-sent events: `delta` events with text, then one `done` or `error`.
+app.post('/api/chat', llmLimiter.middleware, async (req, res) => {
+  const { title, transcript = [], history = [], message } = req.body;
+  if (typeof message !== 'string' || !message.trim()) return res.status(400).json({ error: 'Missing message' });
+  if (!Array.isArray(transcript) || !Array.isArray(history)) {
+    return res.status(400).json({ error: 'transcript and history must be arrays' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+  const send = (event) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+
+  // Stop generating (and paying for tokens) as soon as the client goes away
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  try {
+    const turns = history.filter(turn => turn && (turn.role === 'user' || turn.role === 'model') && turn.text);
+    // Follow-ups like "why?" only make sense together with the previous question
+    const previousQuestion = [...turns].reverse().find(turn => turn.role === 'user');
+    const query = previousQuestion ? `${previousQuestion.text}\n${message}` : message;
+    const { excerpts, complete } = await retriever.buildContext(transcript, query);
+
+    const chat = llm.createChat({
+      systemInstruction: buildChatInstruction({ title, excerpts, complete }),
+      history: turns
+    });
+    for await (const text of chat.sendMessageStream(message, { signal: controller.signal })) {
+      if (controller.signal.aborted) break;
+      send({ type: 'delta', text });
+    }
+    send({ type: 'done' });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error('Chat failed:', error);
+      send({ type: 'error', error: 'Sorry, I encountered an error while processing your request.' });
+    }
+  }
+  res.end();
+});
+
+// Body `{ title, highlights, transcript }`. Quiz questions and flashcards per highlight chapter.
+// Nothing is cached here: the client stores the cards together with their review state.
+app.post('/api/study', llmLimiter.middleware, async (req, res) => {
+  const { title, highlights, transcript } = req.body;
+  if (!Array.isArray(highlights) || highlights.length === 0 || !Array.isArray(transcript)) {
+    return res.status(400).json({ error: 'Study material needs the highlights and transcript of the video' });
+  }
+
+  try {
+    const chapters = await generateStudySet(llm, { title, highlights, transcript });
+    res.json({ chapters });
+  } catch (error) {
+    console.error('Study generation failed:', error);
+    res.status(502).json({ error: 'Failed to generate study material' });
+  }
+});
+
+// Body `{ platform, id, title, duration, highlights, transcript, force }`.
+// TL;DR, per-chapter summaries and a glossary, built map-reduce over the whole transcript
+// (see server/summaries.js). Cached with the analysis unless `force` is true.
+app.post('/api/summary', llmLimiter.middleware, async (req, res) => {
+  const { platform, id, title, duration, highlights = [], transcript, force } = req.body;
+  if (!Array.isArray(transcript) || transcript.length === 0 || !Array.isArray(highlights)) {
+    return res.status(400).json({ error: 'A summary needs the transcript of the video' });
+  }
+
+  const cached = platform && id ? analysisCache.get(platform, id) : null;
+  if (cached && cached.summary && force !== true) return res.json({ summary: cached.summary, cached: true });
+
+  try {
+    const summary = await generateSummary(llm, { title, duration, highlights, transcript }, {
+      progress: (message) => console.log(`Summary ${platform}:${id}: ${message}`)
+    });
+    if (cached) await analysisCache.update(platform, id, { summary });
+    res.json({ summary });
+  } catch (error) {
+    console.error('Summary generation failed:', error);
+    res.status(502).json({ error: 'Failed to generate summary' });
+  }
+});
+
+// Body `{ platform, id, page, title, ranges, format, subtitles, transcript }`.
+// `ranges` are Highlights or any `{ startTime, endTime, title }`; `format` is "mp4" or "mp3";
+// `subtitles` is "none", "burn" or "sidecar". The transcript defaults to the cached one.
+// Responds with download paths under /api/clips/<export id>/.
+app.post('/api/clips', analysisLimiter.middleware, async (req, res) => {
+  const { platform, id, page = 1, title, ranges, format = 'mp4', subtitles = 'none', transcript } = req.body;
+  if (!analyzers[platform] || !id) return res.status(400).json({ error: 'Unknown video' });
+  if (!(await isFfmpegAvailable())) {
+    return res.status(503).json({ error: 'Clip export needs ffmpeg on the server (install it or set FFMPEG_PATH)' });
+  }
+
+  // Stop encoding when the client gives up
+  const controller = new AbortController();
+  res.on('close', () => { if (!res.writableEnded) controller.abort(); });
+
+  try {
+    planClips(ranges); // Reject bad ranges before touching the network
+    const source = await resolveClipSource(platform, id, page);
+    const cached = analysisCache.get(platform, cacheIdFor(id, page));
+    const { dir, files } = await cutClips(source, planClips(ranges, { duration: source.duration }), {
+      format,
+      subtitles,
+      ...clipDefaults({ id, title, transcript }, cached),
+      signal: controller.signal
+    });
+
+    const exportId = clipStore.add(dir, files);
+    const pathFor = (filename) => `/${exportId}/${encodeURIComponent(filename)}`;
+    res.json({
+      clips: files.map(file => ({
+        index: file.index,
+        title: file.title,
+        filename: file.filename,
+        path: pathFor(file.filename),
+        subtitlesPath: file.subtitles ? pathFor(file.subtitles) : undefined
+      }))
+    });
+  } catch (error) {
+    if (error instanceof ClipRequestError) return res.status(400).json({ error: error.message });
+    if (controller.signal.aborted) return;
+    console.error('Clip export failed:', error);
+    res.status(502).json({ error: 'Failed to export clips' });
+  }
+});
+
+app.get('/api/clips/:exportId/:filename', (req, res) => {
+  const file = clipStore.resolve(req.params.exportId, req.params.filename);
+  if (!file) return res.status(404).json({ error: 'Clip not found or expired' });
+  res.download(file, req.params.filename);
+});
+
 app.listen(PORT, () => {
   console.log(`BiliCut Backend running on http://localhost:${PORT}`);
 });
\ No newline at end of file
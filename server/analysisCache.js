@@ -0,0 +1,129 @@
+/**
+ * Persistent analysis cache backed by a single JSON file.
+ *
+ * Entries are keyed by `platform:id` and hold the analysis payload
+ * (metadata, transcript, subtitleSource) plus any generated highlights,
+ * suggested chat questions and summary.
+ * The analyzer is passed in per call, so tests can stub it and run offline.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+function cacheKey(platform, id) {
+  return `${platform}:${id}`;
+}
+
+function createAnalysisCache({ file, now = Date.now } = {}) {
+  const entries = new Map();
+  let writeChain = Promise.resolve();
+
+  if (file && fs.existsSync(file)) {
+    try {
+      const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+      Object.entries(stored.entries || {}).forEach(([key, entry]) => entries.set(key, entry));
+    } catch (err) {
+      console.error(`Ignoring unreadable cache file ${file}:`, err.message);
+    }
+  }
+
+  // Writes are serialized and go through a temp file so a crash never leaves half a JSON document
+  function persist() {
+    if (!file) return Promise.resolve();
+    const snapshot = JSON.stringify({ version: 1, entries: Object.fromEntries(entries) });
+    writeChain = writeChain
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        const tmp = `${file}.tmp`;
+        await fs.promises.writeFile(tmp, snapshot);
+        await fs.promises.rename(tmp, file);
+      })
+      .catch(err => console.error('Failed to persist analysis cache:', err));
+    return writeChain;
+  }
+
+  function get(platform, id) {
+    return entries.get(cacheKey(platform, id)) || null;
+  }
+
+  async function set(platform, id, data) {
+    const key = cacheKey(platform, id);
+    const existing = entries.get(key);
+    const timestamp = now();
+    const entry = {
+      key,
+      platform,
+      id,
+      data,
+      // A fresh analysis invalidates content generated from the old transcript
+      highlights: null,
+      suggestedQuestions: null,
+      summary: null,
+      createdAt: existing ? existing.createdAt : timestamp,
+      updatedAt: timestamp,
+    };
+    entries.set(key, entry);
+    await persist();
+    return entry;
+  }
+
+  /** Merges fields into an existing entry. Returns null if the video was never analyzed. */
+  async function update(platform, id, changes) {
+    const key = cacheKey(platform, id);
+    const existing = entries.get(key);
+    if (!existing) return null;
+    const entry = { ...existing, ...changes, updatedAt: now() };
+    entries.set(key, entry);
+    await persist();
+    return entry;
+  }
+
+  async function remove(platform, id) {
+    const deleted = entries.delete(cacheKey(platform, id));
+    if (deleted) await persist();
+    return deleted;
+  }
+
+  async function clear() {
+    const count = entries.size;
+    entries.clear();
+    await persist();
+    return count;
+  }
+
+  function list() {
+    return [...entries.values()].map(entry => ({
+      key: entry.key,
+      platform: entry.platform,
+      id: entry.id,
+      title: entry.data.title,
+      subtitleSource: entry.data.subtitleSource,
+      segments: entry.data.transcript ? entry.data.transcript.length : 0,
+      hasHighlights: Array.isArray(entry.highlights),
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+    }));
+  }
+
+  /**
+   * Returns the cached entry, or runs `analyze()` and caches its result.
+   * `force` skips the lookup; `shouldCache` lets callers refuse to store failed analyses.
+   */
+  async function getOrAnalyze(platform, id, analyze, { force = false, shouldCache = () => true } = {}) {
+    if (!force) {
+      const cached = get(platform, id);
+      if (cached) return { entry: cached, cached: true };
+    }
+
+    const data = await analyze();
+    if (!shouldCache(data)) {
+      return { entry: { key: cacheKey(platform, id), platform, id, data, highlights: null }, cached: false };
+    }
+    const entry = await set(platform, id, data);
+    return { entry, cached: false };
+  }
+
+  return { get, set, update, remove, clear, list, getOrAnalyze, flush: () => writeChain };
+}
+
+export { createAnalysisCache, cacheKey };
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAnalysisCache, cacheKey } from './analysisCache.js';
+
+const analysis = (title) => ({
+  title,
+  transcript: [{ id: '1', text: 'Hello', timestamp: '0:00', startTime: 0 }],
+  subtitleSource: 'official',
+});
+
+describe('createAnalysisCache', () => {
+  let dir;
+  let file;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bilicut-cache-'));
+    file = path.join(dir, 'analysis.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs the fetcher once and serves later calls from the cache', async () => {
+    const cache = createAnalysisCache({ file });
+    const fetcher = vi.fn(async () => analysis('First'));
+
+    const first = await cache.getOrAnalyze('bilibili', 'BV1', fetcher);
+    const second = await cache.getOrAnalyze('bilibili', 'BV1', fetcher);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(first.cached).toBe(false);
+    expect(second.cached).toBe(true);
+    expect(second.entry.data.title).toBe('First');
+    expect(second.entry.key).toBe(cacheKey('bilibili', 'BV1'));
+  });
+
+  it('keys entries by platform as well as id', async () => {
+    const cache = createAnalysisCache({ file });
+    await cache.getOrAnalyze('bilibili', 'abc', async () => analysis('Bilibili'));
+    const { entry, cached } = await cache.getOrAnalyze('youtube', 'abc', async () => analysis('YouTube'));
+
+    expect(cached).toBe(false);
+    expect(entry.data.title).toBe('YouTube');
+    expect(cache.list()).toHaveLength(2);
+  });
+
+  it('refreshes on force and drops content generated from the old transcript', async () => {
+    let clock = 1000;
+    const cache = createAnalysisCache({ file, now: () => clock });
+    await cache.getOrAnalyze('bilibili', 'BV1', async () => analysis('Old'));
+    await cache.update('bilibili', 'BV1', { highlights: [{ id: 'h1' }], summary: { tldr: 'x' } });
+
+    clock = 2000;
+    const { entry, cached } = await cache.getOrAnalyze('bilibili', 'BV1', async () => analysis('New'), { force: true });
+
+    expect(cached).toBe(false);
+    expect(entry.data.title).toBe('New');
+    expect(entry.highlights).toBeNull();
+    expect(entry.summary).toBeNull();
+    expect(entry.createdAt).toBe(1000);
+    expect(entry.updatedAt).toBe(2000);
+  });
+
+  it('does not store analyses the caller rejects', async () => {
+    const cache = createAnalysisCache({ file });
+    const shouldCache = (data) => data.transcript.length > 0;
+    const { entry } = await cache.getOrAnalyze('bilibili', 'BV1', async () => ({ ...analysis('Empty'), transcript: [] }), { shouldCache });
+
+    expect(entry.data.title).toBe('Empty');
+    expect(cache.get('bilibili', 'BV1')).toBeNull();
+  });
+
+  it('persists entries to the file and reloads them', async () => {
+    const cache = createAnalysisCache({ file });
+    await cache.getOrAnalyze('youtube', 'vid', async () => analysis('Saved'));
+    await cache.update('youtube', 'vid', { highlights: [{ id: 'h1' }] });
+    await cache.flush();
+
+    const reloaded = createAnalysisCache({ file });
+    const fetcher = vi.fn();
+    const { entry, cached } = await reloaded.getOrAnalyze('youtube', 'vid', fetcher);
+
+    expect(fetcher).not.toHaveBeenCalled();
+    expect(cached).toBe(true);
+    expect(entry.highlights).toEqual([{ id: 'h1' }]);
+    expect(reloaded.list()[0]).toMatchObject({ title: 'Saved', segments: 1, hasHighlights: true });
+  });
+
+  it('starts empty when the cache file is unreadable', () => {
+    fs.writeFileSync(file, '{ not json');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(createAnalysisCache({ file }).list()).toEqual([]);
+    error.mockRestore();
+  });
+
+  it('evicts single entries and clears everything', async () => {
+    const cache = createAnalysisCache({ file });
+    await cache.set('bilibili', 'a', analysis('A'));
+    await cache.set('bilibili', 'b', analysis('B'));
+
+    expect(await cache.remove('bilibili', 'a')).toBe(true);
+    expect(await cache.remove('bilibili', 'a')).toBe(false);
+    expect(await cache.update('bilibili', 'a', { highlights: [] })).toBeNull();
+    expect(await cache.clear()).toBe(1);
+    expect(createAnalysisCache({ file }).list()).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Validation for LLM-generated highlight chapters. Models return chapters
+ * that overlap, run past the end of the video, leave gaps or carry colors
+ * the Timeline can't render; `normalizeHighlights` turns whatever came back
+ * into a sorted, non-overlapping list that tiles the video.
+ */
+
+import { PALETTE } from '../utils/palette.js';
+
+// Chapters shorter than this after snapping are merged into their neighbour
+const MIN_CHAPTER_SECONDS = 5;
+
+// Nearest segment start, so chapters begin where a sentence begins
+function snapToSegment(time, segmentStarts) {
+  if (segmentStarts.length === 0) return time;
+  return segmentStarts.reduce((best, start) => (Math.abs(start - time) < Math.abs(best - time) ? start : best));
+}
+
+/**
+ * `highlights` are raw chapters (`startTime` required, `endTime` optional).
+ * `duration` bounds them when known; with `segmentStarts`, every chapter
+ * start is snapped to the nearest one. Returns chapters with fresh ids and
+ * palette colors, where each one ends where the next begins and the last
+ * ends at `duration`.
+ */
+function normalizeHighlights(highlights, { duration, segmentStarts = [] } = {}) {
+  const knownDuration = Number.isFinite(duration) && duration > 0 ? duration : null;
+  const starts = segmentStarts
+    .filter(start => Number.isFinite(start) && start >= 0 && (!knownDuration || start < knownDuration))
+    .sort((a, b) => a - b);
+  const limit = knownDuration ?? Math.max(0, starts[starts.length - 1] || 0, ...highlights.map(h => Number(h.endTime) || 0));
+
+  const chapters = [];
+  highlights
+    .filter(h => h && String(h.title || '').trim() && Number.isFinite(Number(h.startTime)))
+    .map(h => ({
+      title: String(h.title).trim(),
+      description: String(h.description || '').trim(),
+      startTime: snapToSegment(Math.min(Math.max(0, Number(h.startTime)), limit), starts)
+    }))
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach(chapter => {
+      const previous = chapters[chapters.length - 1];
+      // Duplicates and slivers (often two chapters snapped to the same segment) keep the earlier title
+      if (previous && chapter.startTime - previous.startTime < MIN_CHAPTER_SECONDS) return;
+      if (knownDuration && knownDuration - chapter.startTime < MIN_CHAPTER_SECONDS && previous) return;
+      chapters.push(chapter);
+    });
+
+  if (chapters.length === 0) return [];
+  // Text before the first chapter belongs to it
+  chapters[0].startTime = 0;
+
+  return chapters.map((chapter, i) => ({
+    id: `chapter-${i + 1}`,
+    title: chapter.title,
+    startTime: chapter.startTime,
+    endTime: i + 1 < chapters.length ? chapters[i + 1].startTime : Math.max(limit, chapter.startTime + MIN_CHAPTER_SECONDS),
+    color: PALETTE[i % PALETTE.length],
+    description: chapter.description
+  }));
+}
+
+export { normalizeHighlights, PALETTE };
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeHighlights, PALETTE } from './chapters.js';
+
+const raw = (title, startTime, extra = {}) => ({ title, startTime, description: `${title} part`, ...extra });
+
+describe('normalizeHighlights', () => {
+  it('sorts chapters and tiles the video, each ending where the next begins', () => {
+    const chapters = normalizeHighlights([raw('Second', 60), raw('First', 0), raw('Third', 120)], { duration: 180 });
+
+    expect(chapters.map(c => [c.id, c.title, c.startTime, c.endTime])).toEqual([
+      ['chapter-1', 'First', 0, 60],
+      ['chapter-2', 'Second', 60, 120],
+      ['chapter-3', 'Third', 120, 180],
+    ]);
+    expect(chapters[1].description).toBe('Second part');
+  });
+
+  it('resolves overlapping ranges by start time, ignoring the reported end times', () => {
+    const chapters = normalizeHighlights([
+      raw('A', 0, { endTime: 100 }),
+      raw('B', 40, { endTime: 80 }),
+      raw('C', 70, { endTime: 200 }),
+    ], { duration: 150 });
+
+    expect(chapters.map(c => [c.startTime, c.endTime])).toEqual([[0, 40], [40, 70], [70, 150]]);
+  });
+
+  it('clamps out-of-range times and starts the first chapter at zero', () => {
+    const chapters = normalizeHighlights([raw('Late', 20), raw('Past the end', 500), raw('Negative', -30)], { duration: 300 });
+
+    expect(chapters.map(c => [c.title, c.startTime, c.endTime])).toEqual([
+      ['Negative', 0, 20],
+      ['Late', 20, 300],
+    ]);
+  });
+
+  it('drops chapters without a usable start or title, and ignores inverted end times', () => {
+    const chapters = normalizeHighlights([
+      raw('Intro', 0),
+      raw('Inverted', 50, { endTime: 10 }),
+      raw('No start', 'soon'),
+      raw('  ', 80),
+      null,
+    ], { duration: 100 });
+
+    expect(chapters.map(c => [c.title, c.startTime, c.endTime])).toEqual([['Intro', 0, 50], ['Inverted', 50, 100]]);
+  });
+
+  it('keeps the earlier title when two chapters snap to the same segment', () => {
+    const chapters = normalizeHighlights([raw('Intro', 0), raw('Setup', 29), raw('Setup again', 31.5)], {
+      duration: 90,
+      segmentStarts: [0, 12, 30, 45],
+    });
+
+    expect(chapters.map(c => [c.title, c.startTime, c.endTime])).toEqual([['Intro', 0, 30], ['Setup', 30, 90]]);
+  });
+
+  it('merges slivers into the previous chapter, including one right before the end', () => {
+    const chapters = normalizeHighlights([raw('A', 0), raw('B', 3), raw('C', 50), raw('Outro', 58)], { duration: 60 });
+    expect(chapters.map(c => c.title)).toEqual(['A', 'C']);
+    expect(chapters[1].endTime).toBe(60);
+  });
+
+  it('replaces missing or invalid colors with palette colors that differ between neighbours', () => {
+    const chapters = normalizeHighlights([
+      raw('A', 0, { color: 'red' }),
+      raw('B', 10),
+      raw('C', 20, { color: '#123456' }),
+    ], { duration: 30 });
+
+    expect(chapters.map(c => c.color)).toEqual(PALETTE.slice(0, 3));
+  });
+
+  it('uses the segments or the reported end times when the duration is unknown', () => {
+    expect(normalizeHighlights([raw('A', 0), raw('B', 40)], { segmentStarts: [0, 40, 70] }).at(-1).endTime).toBe(70);
+    expect(normalizeHighlights([raw('A', 0, { endTime: 90 })]).at(-1).endTime).toBe(90);
+  });
+
+  it('returns nothing when no chapter is usable', () => {
+    expect(normalizeHighlights([raw('', 0)], { duration: 60 })).toEqual([]);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Clip export: cuts time ranges of a video into MP4 (video + audio) or MP3
+ * (audio only) files with ffmpeg, optionally with the transcript as
+ * subtitles, either burned into the picture or as a sidecar .srt.
+ *
+ * Sources are plain ffmpeg inputs, so remote DASH streams (with request
+ * headers) and a local media file go through exactly the same pipeline.
+ * Finished clips are kept in a temporary directory for a while so the
+ * browser can download them one by one.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { runFfmpeg } from './ffmpeg.js';
+
+const MAX_CLIPS = 20;
+const MAX_CLIP_SECONDS = 15 * 60;
+const MIN_CLIP_SECONDS = 1;
+// Cues without an end (the transcript only has start times) stay up at most this long
+const MAX_CUE_SECONDS = 7;
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+
+const FORMATS = ['mp4', 'mp3'];
+const SUBTITLE_MODES = ['none', 'burn', 'sidecar'];
+
+// Bad input from the client (mapped to a 400), as opposed to an ffmpeg or network failure
+class ClipRequestError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ClipRequestError';
+  }
+}
+
+/**
+ * Validates the requested ranges (Highlights or `{ startTime, endTime, title }`)
+ * against the video length. Throws ClipRequestError for unusable input.
+ */
+function planClips(ranges, { duration } = {}) {
+  if (!Array.isArray(ranges) || ranges.length === 0) throw new ClipRequestError('No clip ranges given');
+  if (ranges.length > MAX_CLIPS) throw new ClipRequestError(`At most ${MAX_CLIPS} clips per request`);
+
+  const limit = Number.isFinite(duration) && duration > 0 ? duration : Infinity;
+  return ranges.map((range, i) => {
+    const start = Math.max(0, Number(range.startTime));
+    const end = Math.min(limit, Number(range.endTime));
+    if (!Number.isFinite(start) || !Number.isFinite(end) || end - start < MIN_CLIP_SECONDS) {
+      throw new ClipRequestError(`Clip ${i + 1} has an invalid time range`);
+    }
+    if (end - start > MAX_CLIP_SECONDS) {
+      throw new ClipRequestError(`Clip ${i + 1} is longer than ${MAX_CLIP_SECONDS / 60} minutes`);
+    }
+    return { index: i, title: String(range.title || `clip-${i + 1}`), start, end };
+  });
+}
+
+/** Transcript cues inside `[start, end)`, shifted so the clip starts at 0. */
+function clipCues(transcript, start, end) {
+  const segments = [...(transcript || [])].sort((a, b) => a.startTime - b.startTime);
+  const cues = [];
+  segments.forEach((segment, i) => {
+    const next = segments[i + 1];
+    const cueEnd = Math.min(next ? next.startTime : Infinity, segment.startTime + MAX_CUE_SECONDS);
+    if (cueEnd <= start || segment.startTime >= end) return;
+    const text = String(segment.text || '').trim();
+    if (!text) return;
+    cues.push({
+      startTime: Math.max(segment.startTime, start) - start,
+      endTime: Math.min(cueEnd, end) - start,
+      text
+    });
+  });
+  return cues;
+}
+
+function srtTime(seconds) {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)},${pad(ms % 1000, 3)}`;
+}
+
+function toSrt(cues) {
+  return cues
+    .map((cue, i) => `${i + 1}\n${srtTime(cue.startTime)} --> ${srtTime(cue.endTime)}\n${cue.text}\n`)
+    .join('\n');
+}
+
+// A path inside the `subtitles` filter argument, which has its own escaping rules
+function escapeFilterPath(file) {
+  return file.replace(/\\/g, '/').replace(/([:'\[\],;])/g, '\\$1');
+}
+
+/**
+ * ffmpeg arguments for one clip. `source` is `{ video, audio, headers }`:
+ * `video` and `audio` may be the same input (a muxed or local file), and
+ * `headers` are sent with HTTP inputs (DASH URLs need a Referer).
+ */
+function buildClipArgs({ source, start, end, format, subtitlesFile, output }) {
+  const inputs = format === 'mp3' || !source.video
+    ? [source.audio]
+    : [...new Set([source.video, source.audio].filter(Boolean))];
+
+  const args = [];
+  inputs.forEach(input => {
+    if (source.headers && /^https?:/.test(input)) args.push('-headers', source.headers);
+    // Seeking before -i is fast (HTTP range requests) and frame-accurate when re-encoding
+    args.push('-ss', String(start), '-t', String(end - start), '-i', input);
+  });
+
+  if (format === 'mp3') {
+    args.push('-map', '0:a:0', '-vn', '-c:a', 'libmp3lame', '-b:a', '192k');
+  } else {
+    const audioInput = inputs.indexOf(source.audio);
+    args.push('-map', '0:v:0', '-map', `${audioInput === -1 ? 0 : audioInput}:a:0?`);
+    if (subtitlesFile) args.push('-vf', `subtitles=${escapeFilterPath(subtitlesFile)}`);
+    args.push('-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-c:a', 'aac', '-b:a', '128k', '-movflags', '+faststart');
+  }
+  args.push('-y', output);
+  return args;
+}
+
+// Keeps file names portable; CJK titles are fine, path separators and the like are not
+function safeFilename(name) {
+  const cleaned = String(name).replace(/[\\/:*?"<>|\x00-\x1f]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80);
+  return cleaned || 'clip';
+}
+
+/**
+ * Cuts every planned clip from `source`, one ffmpeg process at a time.
+ * Resolves with `{ dir, files: [{ index, title, filename, subtitles? }] }`; the
+ * caller owns `dir` and removes it when the files are no longer needed.
+ */
+async function cutClips(source, clips, { format = 'mp4', subtitles = 'none', transcript = [], baseName = 'clip', signal } = {}) {
+  if (!FORMATS.includes(format)) throw new ClipRequestError(`Unsupported format "${format}"`);
+  if (!SUBTITLE_MODES.includes(subtitles)) throw new ClipRequestError(`Unsupported subtitle mode "${subtitles}"`);
+  if (subtitles === 'burn' && format !== 'mp4') throw new ClipRequestError('Burned-in subtitles need an MP4 clip');
+
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'bilicut-clips-'));
+  const files = [];
+  try {
+    for (const clip of clips) {
+      if (signal && signal.aborted) throw new Error('Clip export cancelled');
+      const stem = `${safeFilename(baseName)} - ${String(clip.index + 1).padStart(2, '0')} ${safeFilename(clip.title)}`;
+      const filename = `${stem}.${format}`;
+
+      const cues = subtitles === 'none' ? [] : clipCues(transcript, clip.start, clip.end);
+      // Burned-in cues get a plain name so the title never needs filter escaping
+      const srtFile = cues.length === 0 ? null : subtitles === 'sidecar' ? `${stem}.srt` : `cues-${clip.index}.srt`;
+      if (srtFile) await fs.promises.writeFile(path.join(dir, srtFile), toSrt(cues));
+
+      await runFfmpeg(buildClipArgs({
+        source,
+        start: clip.start,
+        end: clip.end,
+        format,
+        subtitlesFile: subtitles === 'burn' && srtFile ? path.join(dir, srtFile) : null,
+        output: path.join(dir, filename)
+      }), { signal });
+
+      files.push({
+        index: clip.index,
+        title: clip.title,
+        filename,
+        subtitles: subtitles === 'sidecar' && srtFile ? srtFile : undefined
+      });
+    }
+    return { dir, files };
+  } catch (error) {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/** A source that cuts every clip from one local media file (CLIP_SOURCE_FILE), or null when unset. */
+function localClipSource(env = process.env) {
+  const file = env.CLIP_SOURCE_FILE;
+  return file ? { video: file, audio: file } : null;
+}
+
+/**
+ * Transcript and file name for an export: what the client sent, else the
+ * cached analysis of the video (`cached.data`), else nothing and the video id.
+ */
+function clipDefaults({ id, title, transcript }, cached) {
+  const analysis = (cached && cached.data) || {};
+  return {
+    transcript: Array.isArray(transcript) ? transcript : analysis.transcript || [],
+    baseName: title || analysis.title || id
+  };
+}
+
+/**
+ * Remembers exported clip directories under random ids and deletes them
+ * after `ttlMs`, so downloads work for a while without filling the disk.
+ */
+function createClipStore({ ttlMs = DEFAULT_TTL_MS } = {}) {
+  const exports = new Map();
+
+  return {
+    add(dir, files) {
+      const id = crypto.randomBytes(8).toString('hex');
+      exports.set(id, { dir, files });
+      setTimeout(() => {
+        exports.delete(id);
+        fs.promises.rm(dir, { recursive: true, force: true }).catch(() => {});
+      }, ttlMs).unref();
+      return id;
+    },
+
+    /** Absolute path of an exported file, or null when unknown or expired. */
+    resolve(id, filename) {
+      const entry = exports.get(id);
+      if (!entry) return null;
+      const known = entry.files.some(f => f.filename === filename || f.subtitles === filename);
+      return known ? path.join(entry.dir, filename) : null;
+    }
+  };
+}
+
+export {
+  ClipRequestError,
+  planClips,
+  clipCues,
+  toSrt,
+  buildClipArgs,
+  cutClips,
+  localClipSource,
+  clipDefaults,
+  createClipStore
+};
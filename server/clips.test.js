@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createAnalysisCache } from './analysisCache.js';
+
+// server/ffmpeg.js reads FFMPEG_PATH when loaded; fall back to the binary from the dev dependency
+const require = createRequire(import.meta.url);
+process.env.FFMPEG_PATH ||= require('@ffmpeg-installer/ffmpeg').path;
+
+const { ClipRequestError, planClips, clipCues, toSrt, cutClips, localClipSource, clipDefaults } = await import('./clips.js');
+const { runFfmpeg, isFfmpegAvailable } = await import('./ffmpeg.js');
+
+// 4 s of test pattern (160x90, 10 fps) with a 440 Hz tone
+const SAMPLE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'sample.mp4');
+
+const transcript = [
+  { id: 't0', text: 'Before the clip', timestamp: '0:00', startTime: 0 },
+  { id: 't1', text: 'Inside the clip', timestamp: '0:01', startTime: 1.5 },
+  { id: 't2', text: 'Still inside', timestamp: '0:02', startTime: 2.5 },
+];
+
+// Decoded length of a stream in seconds, from raw samples written to stdout
+async function audioSeconds(file) {
+  const pcm = await runFfmpeg(['-i', file, '-map', '0:a:0', '-f', 's16le', '-ac', '1', '-ar', '8000', '-']);
+  return pcm.length / 2 / 8000;
+}
+
+async function videoFrames(file) {
+  const frames = await runFfmpeg(['-i', file, '-map', '0:v:0', '-f', 'rawvideo', '-pix_fmt', 'gray', '-s', '16x9', '-']);
+  return frames.length / (16 * 9);
+}
+
+describe('planClips', () => {
+  it('clamps ranges to the video and names untitled clips', () => {
+    expect(planClips([{ startTime: -2, endTime: 99, title: 'All' }, { startTime: 1, endTime: 3 }], { duration: 4 }))
+      .toEqual([
+        { index: 0, title: 'All', start: 0, end: 4 },
+        { index: 1, title: 'clip-2', start: 1, end: 3 },
+      ]);
+  });
+
+  it('rejects missing, empty and inverted ranges', () => {
+    expect(() => planClips([])).toThrow(ClipRequestError);
+    expect(() => planClips([{ startTime: 3, endTime: 3.5 }])).toThrow(/invalid time range/);
+    expect(() => planClips([{ startTime: 3, endTime: 1 }])).toThrow(ClipRequestError);
+  });
+});
+
+describe('clipCues', () => {
+  it('keeps cues inside the clip, shifted to start at zero', () => {
+    expect(toSrt(clipCues(transcript, 1, 3))).toBe(
+      '1\n00:00:00,000 --> 00:00:00,500\nBefore the clip\n\n' +
+      '2\n00:00:00,500 --> 00:00:01,500\nInside the clip\n\n' +
+      '3\n00:00:01,500 --> 00:00:02,000\nStill inside\n'
+    );
+  });
+});
+
+describe('clipDefaults', () => {
+  it('falls back to the transcript and title of the cached analysis', async () => {
+    const cache = createAnalysisCache();
+    const cached = await cache.set('bilibili', 'BV1', { title: 'Cached title', transcript });
+
+    expect(clipDefaults({ id: 'BV1' }, cached)).toEqual({ transcript, baseName: 'Cached title' });
+  });
+
+  it('prefers what the client sent, and uses the video id without a cached analysis', () => {
+    expect(clipDefaults({ id: 'BV1', title: 'Mine', transcript: [] }, { data: { title: 'Cached', transcript } }))
+      .toEqual({ transcript: [], baseName: 'Mine' });
+    expect(clipDefaults({ id: 'BV1' }, null)).toEqual({ transcript: [], baseName: 'BV1' });
+  });
+});
+
+describe('localClipSource', () => {
+  it('uses CLIP_SOURCE_FILE for both video and audio', () => {
+    expect(localClipSource({ CLIP_SOURCE_FILE: SAMPLE })).toEqual({ video: SAMPLE, audio: SAMPLE });
+    expect(localClipSource({})).toBeNull();
+  });
+});
+
+describe.skipIf(!(await isFfmpegAvailable()))('cutClips with the sample file', () => {
+  const source = localClipSource({ CLIP_SOURCE_FILE: SAMPLE });
+  const dirs = [];
+  const cut = async (ranges, options) => {
+    const result = await cutClips(source, planClips(ranges), { transcript, baseName: 'Sample', ...options });
+    dirs.push(result.dir);
+    return result;
+  };
+
+  afterEach(async () => {
+    await Promise.all(dirs.splice(0).map(dir => fs.promises.rm(dir, { recursive: true, force: true })));
+  });
+
+  it('cuts an MP4 with a sidecar SRT', async () => {
+    const { dir, files } = await cut([{ startTime: 1, endTime: 3, title: 'Middle' }], { format: 'mp4', subtitles: 'sidecar' });
+
+    expect(files).toEqual([{ index: 0, title: 'Middle', filename: 'Sample - 01 Middle.mp4', subtitles: 'Sample - 01 Middle.srt' }]);
+    const clip = path.join(dir, files[0].filename);
+    expect(fs.readFileSync(clip).subarray(4, 8).toString()).toBe('ftyp');
+    expect(await videoFrames(clip)).toBeCloseTo(20, -1);
+    expect(await audioSeconds(clip)).toBeCloseTo(2, 0);
+    expect(fs.readFileSync(path.join(dir, files[0].subtitles), 'utf8')).toBe(toSrt(clipCues(transcript, 1, 3)));
+  }, 60000);
+
+  it('cuts an audio-only MP3', async () => {
+    const { dir, files } = await cut([{ startTime: 0, endTime: 2.5, title: 'Start' }], { format: 'mp3' });
+
+    const clip = path.join(dir, files[0].filename);
+    expect(files[0]).toMatchObject({ filename: 'Sample - 01 Start.mp3', subtitles: undefined });
+    expect(await audioSeconds(clip)).toBeCloseTo(2.5, 0);
+    await expect(videoFrames(clip)).rejects.toThrow();
+  }, 60000);
+
+  it('burns subtitles into the picture without leaving a sidecar', async () => {
+    const { dir, files } = await cut([{ startTime: 1, endTime: 2 }], { format: 'mp4', subtitles: 'burn' });
+
+    expect(files[0].subtitles).toBeUndefined();
+    expect(await videoFrames(path.join(dir, files[0].filename))).toBeCloseTo(10, -1);
+  }, 60000);
+
+  it('rejects burned-in subtitles on MP3 before running ffmpeg', async () => {
+    await expect(cutClips(source, planClips([{ startTime: 0, endTime: 2 }]), { format: 'mp3', subtitles: 'burn' }))
+      .rejects.toThrow(ClipRequestError);
+  });
+});
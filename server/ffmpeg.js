@@ -0,0 +1,36 @@
+/**
+ * Thin wrapper around the ffmpeg binary (must be on PATH, or set FFMPEG_PATH).
+ */
+
+import { spawn } from 'child_process';
+
+const FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+
+/** Runs ffmpeg and resolves with whatever it wrote to stdout. */
+function runFfmpeg(args, { signal } = {}) {
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG, ['-hide_banner', '-loglevel', 'error', ...args], { signal });
+    const stdout = [];
+    const stderr = [];
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) return resolve(Buffer.concat(stdout));
+      const message = Buffer.concat(stderr).toString().trim();
+      reject(new Error(`ffmpeg exited with code ${code}${message ? `: ${message}` : ''}`));
+    });
+  });
+}
+
+let availability = null;
+
+/** Whether an ffmpeg binary can be spawned. Checked once per process. */
+function isFfmpegAvailable() {
+  if (!availability) {
+    availability = runFfmpeg(['-version']).then(() => true, () => false);
+  }
+  return availability;
+}
+
+export { runFfmpeg, isFfmpegAvailable };
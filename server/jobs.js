@@ -0,0 +1,101 @@
+/**
+ * In-memory background jobs with progress events.
+ *
+ * A job runs `task({ signal, progress })` once. Every event it emits is kept,
+ * so a subscriber that connects late (or reconnects) gets the full history
+ * followed by live updates.
+ */
+
+import crypto from 'crypto';
+
+// Finished jobs stay around long enough for a slow client to read the result
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+function throwIfCancelled(signal) {
+  if (signal && signal.aborted) throw new JobCancelledError();
+}
+
+function createJobManager({ ttlMs = FINISHED_JOB_TTL_MS } = {}) {
+  const jobs = new Map();
+
+  function emit(job, event) {
+    job.events.push(event);
+    job.listeners.forEach(listener => listener(event));
+  }
+
+  function finish(job, status, event) {
+    if (job.status !== 'running') return;
+    job.status = status;
+    emit(job, event);
+    job.listeners.clear();
+    setTimeout(() => jobs.delete(job.id), ttlMs).unref();
+  }
+
+  function create(task) {
+    const job = {
+      id: crypto.randomUUID(),
+      status: 'running',
+      events: [],
+      listeners: new Set(),
+      controller: new AbortController(),
+      createdAt: Date.now(),
+    };
+    jobs.set(job.id, job);
+
+    const progress = (stage, message, extra = {}) => {
+      if (job.status === 'running') emit(job, { type: 'progress', stage, message, ...extra });
+    };
+
+    // Run on the next tick so the caller can hand out the ID before the first event
+    setImmediate(async () => {
+      try {
+        const result = await task({ signal: job.controller.signal, progress });
+        throwIfCancelled(job.controller.signal);
+        finish(job, 'done', { type: 'done', result });
+      } catch (err) {
+        if (job.controller.signal.aborted) {
+          finish(job, 'cancelled', { type: 'cancelled' });
+        } else {
+          console.error(`Job ${job.id} failed:`, err);
+          finish(job, 'error', { type: 'error', error: err.message || 'Job failed' });
+        }
+      }
+    });
+
+    return job;
+  }
+
+  function get(id) {
+    return jobs.get(id) || null;
+  }
+
+  /** Replays past events, then forwards live ones. Returns an unsubscribe function. */
+  function subscribe(id, listener) {
+    const job = jobs.get(id);
+    if (!job) return null;
+    job.events.forEach(listener);
+    if (job.status !== 'running') return () => {};
+    job.listeners.add(listener);
+    return () => job.listeners.delete(listener);
+  }
+
+  function cancel(id) {
+    const job = jobs.get(id);
+    if (!job || job.status !== 'running') return false;
+    job.controller.abort();
+    // Report right away; the task notices the abort at its next checkpoint
+    finish(job, 'cancelled', { type: 'cancelled' });
+    return true;
+  }
+
+  return { create, get, subscribe, cancel };
+}
+
+export { createJobManager, throwIfCancelled, JobCancelledError };
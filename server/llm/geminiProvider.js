@@ -0,0 +1,100 @@
+/**
+ * Gemini provider (Google GenAI SDK).
+ */
+
+import { GoogleGenAI } from '@google/genai';
+
+const TRANSCRIPTION_PROMPT = `
+    You are a professional transcriber. 
+    Listen to the provided audio from a video.
+    Generate a strictly formatted JSON transcript.
+    
+    Requirements:
+    1. Output must be a JSON object with a key "transcript".
+    2. "transcript" is an array of objects.
+    3. Each object must have:
+       - "startTime": number (start time in seconds, precise to 1 decimal)
+       - "text": string (the transcribed text)
+    4. Segment the text naturally by sentence or roughly every 5-15 seconds.
+    5. Do not include markdown formatting. Return raw JSON only.
+  `;
+
+// Appends the user's glossary so names and technical terms come out spelled their way
+function transcriptionPrompt(glossary = []) {
+  if (glossary.length === 0) return TRANSCRIPTION_PROMPT;
+  return `${TRANSCRIPTION_PROMPT}
+    Glossary: the audio may contain these names and terms. When you hear one, spell it exactly as written here:
+    ${glossary.join(', ')}
+  `;
+}
+
+function toContents(history) {
+  return history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+}
+
+function createGeminiProvider({ apiKey, model = 'gemini-2.5-flash', transcribeModel = model, embeddingModel = 'text-embedding-004' }) {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    model,
+
+    createChat({ systemInstruction, history = [] }) {
+      const chat = ai.chats.create({
+        model,
+        config: { systemInstruction },
+        history: toContents(history)
+      });
+      return {
+        async sendMessage(message) {
+          const response = await chat.sendMessage({ message });
+          return response.text || '';
+        },
+        async *sendMessageStream(message, { signal } = {}) {
+          const stream = await chat.sendMessageStream({ message, config: { abortSignal: signal } });
+          for await (const chunk of stream) {
+            if (chunk.text) yield chunk.text;
+          }
+        }
+      };
+    },
+
+    async generateJson(prompt, schema) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: 'application/json',
+          responseJsonSchema: schema
+        }
+      });
+      if (!response.text) throw new Error('Empty response from Gemini');
+      return JSON.parse(response.text);
+    },
+
+    async embed(texts) {
+      const response = await ai.models.embedContent({ model: embeddingModel, contents: texts });
+      return response.embeddings.map(embedding => embedding.values);
+    },
+
+    // Returns cues `{ startTime, text }` relative to the start of the audio
+    async transcribeAudio(audio, mimeType, { glossary } = {}) {
+      const response = await ai.models.generateContent({
+        model: transcribeModel,
+        contents: {
+          parts: [
+            { inlineData: { mimeType, data: Buffer.from(audio).toString('base64') } },
+            { text: transcriptionPrompt(glossary) }
+          ]
+        },
+        config: {
+          responseMimeType: 'application/json'
+        }
+      });
+      const json = JSON.parse(response.text || '{}');
+      return (json.transcript || []).map(item => ({ startTime: item.startTime, text: item.text }));
+    }
+  };
+}
+
+export { createGeminiProvider };
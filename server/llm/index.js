@@ -0,0 +1,44 @@
+/**
+ * LLM provider selection.
+ *
+ * Every provider implements:
+ *   createChat({ systemInstruction, history }) -> {
+ *     sendMessage(text) -> Promise<string>,
+ *     sendMessageStream(text, { signal }) -> AsyncIterable<string>   (text deltas)
+ *   }
+ *   generateJson(prompt, jsonSchema)           -> Promise<object>
+ *   transcribeAudio(buffer, mimeType, { glossary })
+ *                                              -> Promise<{ startTime, text }[]>
+ *   embed(texts)                               -> Promise<number[][]>   (optional)
+ *
+ * Configured with LLM_PROVIDER (gemini | openai | mock), LLM_MODEL,
+ * LLM_TRANSCRIBE_MODEL, LLM_EMBEDDING_MODEL, LLM_BASE_URL and LLM_API_KEY
+ * (falls back to API_KEY).
+ */
+
+import { createGeminiProvider } from './geminiProvider.js';
+import { createOpenAIProvider } from './openaiProvider.js';
+import { createMockProvider } from './mockProvider.js';
+
+const PROVIDERS = ['gemini', 'openai', 'mock'];
+
+function createProvider(env = process.env, { fetch } = {}) {
+  const name = (env.LLM_PROVIDER || 'gemini').toLowerCase();
+  const apiKey = env.LLM_API_KEY || env.API_KEY;
+  const model = env.LLM_MODEL || undefined;
+  const transcribeModel = env.LLM_TRANSCRIBE_MODEL || undefined;
+  const embeddingModel = env.LLM_EMBEDDING_MODEL || undefined;
+
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider({ apiKey, model, transcribeModel, embeddingModel });
+    case 'openai':
+      return createOpenAIProvider({ apiKey, baseUrl: env.LLM_BASE_URL || undefined, model, transcribeModel, embeddingModel, fetch });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Expected one of: ${PROVIDERS.join(', ')}`);
+  }
+}
+
+export { createProvider, PROVIDERS };
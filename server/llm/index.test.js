@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createProvider, PROVIDERS } from './index.js';
+import { sampleFromSchema } from './mockProvider.js';
+
+describe('createProvider', () => {
+  it('defaults to Gemini', () => {
+    expect(createProvider({ API_KEY: 'test' }).name).toBe('gemini');
+  });
+
+  it('selects the provider named by LLM_PROVIDER, ignoring case', () => {
+    expect(createProvider({ LLM_PROVIDER: 'mock' }).name).toBe('mock');
+    expect(createProvider({ LLM_PROVIDER: 'OpenAI', LLM_API_KEY: 'test' }).name).toBe('openai');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => createProvider({ LLM_PROVIDER: 'claude' })).toThrow(PROVIDERS.join(', '));
+  });
+});
+
+describe('mock provider', () => {
+  const llm = createProvider({ LLM_PROVIDER: 'mock' });
+
+  it('returns the same JSON for the same prompt', async () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        score: { type: 'integer', minimum: 1, maximum: 5 },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+    };
+    const first = await llm.generateJson('Summarize', schema);
+
+    expect(await llm.generateJson('Summarize', schema)).toEqual(first);
+    expect(first.tags).toHaveLength(3);
+    expect(first.score).toBeGreaterThanOrEqual(1);
+    expect(first.score).toBeLessThanOrEqual(5);
+  });
+
+  it('picks enum values from the schema', () => {
+    expect(['a', 'b']).toContain(sampleFromSchema({ type: 'string', enum: ['a', 'b'] }, 7));
+  });
+
+  it('streams the same reply it sends, and stops when aborted', async () => {
+    const history = [{ role: 'user', text: 'Hi' }, { role: 'model', text: 'Hello' }];
+    const reply = await llm.createChat({ history }).sendMessage('Why?');
+
+    const chunks = [];
+    for await (const chunk of llm.createChat({ history }).sendMessageStream('Why?')) chunks.push(chunk);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(reply);
+
+    const controller = new AbortController();
+    controller.abort();
+    const aborted = [];
+    for await (const chunk of llm.createChat({}).sendMessageStream('Why?', { signal: controller.signal })) aborted.push(chunk);
+    expect(aborted).toEqual([]);
+  });
+
+  it('transcribes audio into timed cues without network', async () => {
+    const cues = await llm.transcribeAudio(Buffer.alloc(16), 'audio/mp4');
+    expect(cues.map(c => c.startTime)).toEqual([0, 10, 20]);
+  });
+});
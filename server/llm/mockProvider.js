@@ -0,0 +1,76 @@
+/**
+ * Deterministic offline provider for tests and local development.
+ * Outputs depend only on the inputs, so repeated runs give identical results.
+ */
+
+const MOCK_CUE_SECONDS = 10;
+const MOCK_CUES = 3;
+
+function hash(text) {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) >>> 0;
+  return h;
+}
+
+// Builds a value that satisfies a (JSON Schema) subset: object, array, string, number, integer, boolean
+function sampleFromSchema(schema, seed, key = 'value') {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, prop], i) => [name, sampleFromSchema(prop, seed + i, name)])
+      );
+    case 'array':
+      return Array.from({ length: 3 }, (_, i) => sampleFromSchema(schema.items || { type: 'string' }, seed + i * 7, key));
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? min + 99;
+      return min + seed % (Math.floor(max - min) + 1);
+    }
+    case 'boolean':
+      return seed % 2 === 0;
+    default:
+      if (Array.isArray(schema.enum)) return schema.enum[seed % schema.enum.length];
+      return `Mock ${key} ${seed % 1000}`;
+  }
+}
+
+function createMockProvider() {
+  return {
+    name: 'mock',
+    model: 'mock',
+
+    createChat({ history = [] }) {
+      let turns = history.length;
+      const reply = (message) => {
+        turns += 2;
+        return `Mock answer #${turns / 2} to: ${message}`;
+      };
+      return {
+        async sendMessage(message) {
+          return reply(message);
+        },
+        // One word per chunk, so the client's incremental rendering can be exercised
+        async *sendMessageStream(message, { signal } = {}) {
+          for (const word of reply(message).split(/(?<= )/)) {
+            if (signal && signal.aborted) return;
+            yield word;
+          }
+        }
+      };
+    },
+
+    async generateJson(prompt, schema) {
+      return sampleFromSchema(schema, hash(prompt));
+    },
+
+    async transcribeAudio(audio) {
+      return Array.from({ length: MOCK_CUES }, (_, i) => ({
+        startTime: i * MOCK_CUE_SECONDS,
+        text: `Mock transcript line ${i + 1} (${audio.byteLength} bytes)`
+      }));
+    }
+  };
+}
+
+export { createMockProvider, sampleFromSchema };
@@ -0,0 +1,123 @@
+/**
+ * OpenAI-compatible provider: OpenAI itself, Ollama (`/v1`), vLLM, LM Studio, etc.
+ *
+ * Chat and JSON generation use `/chat/completions`; transcription uses the
+ * Whisper-style `/audio/transcriptions` endpoint.
+ */
+
+function createOpenAIProvider({
+  apiKey,
+  baseUrl = 'https://api.openai.com/v1',
+  model = 'gpt-4o-mini',
+  transcribeModel = 'whisper-1',
+  embeddingModel = 'text-embedding-3-small',
+  fetch
+}) {
+  const root = baseUrl.replace(/\/+$/, '');
+  const headers = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  async function post(path, body, { isJson = true, signal } = {}) {
+    const response = await fetch(`${root}${path}`, {
+      method: 'POST',
+      headers: isJson ? { ...headers, 'Content-Type': 'application/json' } : headers,
+      body: isJson ? JSON.stringify(body) : body,
+      signal
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`LLM request to ${path} failed (${response.status}): ${detail.slice(0, 200)}`);
+    }
+    return response;
+  }
+
+  async function request(path, body, options) {
+    return (await post(path, body, options)).json();
+  }
+
+  // Yields content deltas from a `stream: true` completion (server-sent `data:` lines)
+  async function* completeStream(messages, signal) {
+    const response = await post('/chat/completions', { model, messages, stream: true }, { signal });
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for await (const chunk of response.body) {
+      buffered += decoder.decode(chunk, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop();
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data) continue;
+        if (data === '[DONE]') return;
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+
+  async function complete(messages, extra = {}) {
+    const json = await request('/chat/completions', { model, messages, ...extra });
+    return json.choices?.[0]?.message?.content || '';
+  }
+
+  const toMessages = (history) => history.map(turn => ({
+    role: turn.role === 'model' ? 'assistant' : 'user',
+    content: turn.text
+  }));
+
+  return {
+    name: 'openai',
+    model,
+
+    createChat({ systemInstruction, history = [] }) {
+      // The API is stateless, so the session keeps the conversation itself
+      const messages = [{ role: 'system', content: systemInstruction }, ...toMessages(history)];
+      return {
+        async sendMessage(message) {
+          messages.push({ role: 'user', content: message });
+          const reply = await complete(messages);
+          messages.push({ role: 'assistant', content: reply });
+          return reply;
+        },
+        async *sendMessageStream(message, { signal } = {}) {
+          messages.push({ role: 'user', content: message });
+          let reply = '';
+          for await (const delta of completeStream(messages, signal)) {
+            reply += delta;
+            yield delta;
+          }
+          messages.push({ role: 'assistant', content: reply });
+        }
+      };
+    },
+
+    async generateJson(prompt, schema) {
+      const content = await complete([{ role: 'user', content: prompt }], {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema }
+        }
+      });
+      return JSON.parse(content);
+    },
+
+    async embed(texts) {
+      const json = await request('/embeddings', { model: embeddingModel, input: texts });
+      return json.data.sort((a, b) => a.index - b.index).map(item => item.embedding);
+    },
+
+    async transcribeAudio(audio, mimeType, { glossary = [] } = {}) {
+      const form = new FormData();
+      const extension = (mimeType.split('/')[1] || 'mp3').replace('mpeg', 'mp3');
+      form.append('file', new Blob([audio], { type: mimeType }), `audio.${extension}`);
+      form.append('model', transcribeModel);
+      form.append('response_format', 'verbose_json');
+      // Whisper reads the prompt as preceding text, which steers the spelling of the terms in it
+      // (only its last 224 tokens count)
+      if (glossary.length > 0) form.append('prompt', glossary.join(', '));
+
+      const json = await request('/audio/transcriptions', form, { isJson: false });
+      return (json.segments || []).map(segment => ({ startTime: segment.start, text: segment.text.trim() }));
+    }
+  };
+}
+
+export { createOpenAIProvider };
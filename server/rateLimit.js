@@ -0,0 +1,59 @@
+/**
+ * Per-client rate limiting (token bucket).
+ *
+ * Each client gets `limit` requests that refill evenly over `windowMs`, so
+ * short bursts are fine but sustained use is capped. Clients are told how
+ * long to wait through the standard `Retry-After` header.
+ */
+
+const DEFAULT_WINDOW_MS = 60 * 1000;
+
+function createRateLimiter({
+  limit,
+  windowMs = DEFAULT_WINDOW_MS,
+  keyFor = (req) => req.ip,
+  now = Date.now
+}) {
+  const buckets = new Map();
+  const refillPerMs = limit / windowMs;
+
+  // Full buckets carry no information, so drop them to keep memory bounded
+  const sweep = setInterval(() => {
+    const time = now();
+    buckets.forEach((bucket, key) => {
+      if (bucket.tokens + (time - bucket.updatedAt) * refillPerMs >= limit) buckets.delete(key);
+    });
+  }, windowMs);
+  sweep.unref();
+
+  // Takes one token; returns 0 if allowed, otherwise the milliseconds until one is available
+  function take(key) {
+    const time = now();
+    const bucket = buckets.get(key) || { tokens: limit, updatedAt: time };
+    bucket.tokens = Math.min(limit, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = time;
+    buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) return Math.ceil((1 - bucket.tokens) / refillPerMs);
+    bucket.tokens -= 1;
+    return 0;
+  }
+
+  function middleware(req, res, next) {
+    const key = keyFor(req);
+    const waitMs = take(key);
+    const bucket = buckets.get(key);
+    res.set('RateLimit-Limit', String(limit));
+    res.set('RateLimit-Remaining', String(Math.floor(bucket.tokens)));
+
+    if (waitMs > 0) {
+      res.set('Retry-After', String(Math.ceil(waitMs / 1000)));
+      return res.status(429).json({ error: 'Too many requests. Please slow down and try again shortly.' });
+    }
+    next();
+  }
+
+  return { take, middleware };
+}
+
+export { createRateLimiter };
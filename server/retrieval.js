@@ -0,0 +1,184 @@
+/**
+ * Transcript retrieval for chat.
+ *
+ * The transcript is cut into chunks of neighbouring segments. A question is
+ * answered from the chunks most similar to it: by embedding similarity when
+ * the LLM provider can embed, otherwise (or if embedding fails) by BM25 over
+ * a local inverted index. Indexes are kept in memory per transcript.
+ */
+
+import crypto from 'crypto';
+import { tokenize } from '../utils/tokenize.js';
+
+const CHUNK_MAX_CHARS = 800;
+const DEFAULT_TOP_K = 6;
+// Transcripts this short go into the prompt whole; retrieval would only drop context
+const FULL_CONTEXT_CHARS = 12000;
+const MAX_CACHED_INDEXES = 20;
+const EMBED_BATCH_SIZE = 100;
+
+// BM25 parameters (the usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+function formatTime(seconds) {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+/** Groups consecutive segments into chunks of at most `maxChars` characters. */
+function chunkTranscript(transcript, { maxChars = CHUNK_MAX_CHARS } = {}) {
+  const chunks = [];
+  let current = null;
+
+  [...transcript]
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach(segment => {
+      const line = `[${formatTime(segment.startTime)}] ${String(segment.text).trim()}`;
+      if (current && current.text.length + line.length + 1 > maxChars) {
+        chunks.push(current);
+        current = null;
+      }
+      if (!current) current = { id: chunks.length, startTime: segment.startTime, text: line };
+      else current.text += `\n${line}`;
+      current.endTime = segment.startTime;
+    });
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function createBm25Index(chunks) {
+  const docs = chunks.map(chunk => {
+    const termFreq = new Map();
+    const tokens = tokenize(chunk.text);
+    tokens.forEach(token => termFreq.set(token, (termFreq.get(token) || 0) + 1));
+    return { termFreq, length: tokens.length };
+  });
+  const docFreq = new Map();
+  docs.forEach(doc => doc.termFreq.forEach((_, term) => docFreq.set(term, (docFreq.get(term) || 0) + 1)));
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / (docs.length || 1);
+
+  function search(query, k = DEFAULT_TOP_K) {
+    const terms = [...new Set(tokenize(query))];
+    return docs
+      .map((doc, i) => {
+        let score = 0;
+        terms.forEach(term => {
+          const tf = doc.termFreq.get(term);
+          if (!tf) return;
+          const df = docFreq.get(term);
+          const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+          score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / avgLength));
+        });
+        return { chunk: chunks[i], score };
+      })
+      .filter(hit => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  return { search };
+}
+
+function cosine(a, b) {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+async function embedAll(embed, texts) {
+  const vectors = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    vectors.push(...await embed(texts.slice(i, i + EMBED_BATCH_SIZE)));
+  }
+  return vectors;
+}
+
+/**
+ * `embed(texts)` (optional) resolves with one vector per text. Without it,
+ * or once it fails, retrieval uses BM25 only.
+ */
+function createRetriever({ embed } = {}) {
+  const indexes = new Map();
+  let embeddingsAvailable = typeof embed === 'function';
+
+  function disableEmbeddings(error) {
+    if (!embeddingsAvailable) return;
+    embeddingsAvailable = false;
+    console.warn(`Embeddings unavailable, using BM25 for retrieval: ${error.message}`);
+  }
+
+  async function getIndex(transcript) {
+    const key = crypto.createHash('sha1').update(JSON.stringify(transcript.map(s => [s.startTime, s.text]))).digest('hex');
+    let index = indexes.get(key);
+    if (index) {
+      // Re-insert so the Map's order doubles as an LRU
+      indexes.delete(key);
+      indexes.set(key, index);
+      return index;
+    }
+
+    const chunks = chunkTranscript(transcript);
+    index = { chunks, bm25: createBm25Index(chunks), vectors: null };
+    if (embeddingsAvailable) {
+      try {
+        index.vectors = await embedAll(embed, chunks.map(c => c.text));
+      } catch (error) {
+        disableEmbeddings(error);
+      }
+    }
+
+    indexes.set(key, index);
+    if (indexes.size > MAX_CACHED_INDEXES) indexes.delete(indexes.keys().next().value);
+    return index;
+  }
+
+  /** The top `k` chunks for `query`, in transcript order. */
+  async function retrieve(transcript, query, { k = DEFAULT_TOP_K } = {}) {
+    const index = await getIndex(transcript);
+    let hits = null;
+
+    if (index.vectors && embeddingsAvailable) {
+      try {
+        const [queryVector] = await embed([query]);
+        hits = index.chunks
+          .map((chunk, i) => ({ chunk, score: cosine(queryVector, index.vectors[i]) }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, k);
+      } catch (error) {
+        disableEmbeddings(error);
+      }
+    }
+    if (!hits) hits = index.bm25.search(query, k);
+
+    return hits.map(hit => hit.chunk).sort((a, b) => a.startTime - b.startTime);
+  }
+
+  /**
+   * Transcript context for a question: the whole transcript when it is short,
+   * otherwise the retrieved chunks. Questions that match nothing (e.g.
+   * "summarize this") get chunks spread evenly over the video instead.
+   */
+  async function buildContext(transcript, query, { k = DEFAULT_TOP_K } = {}) {
+    const totalChars = transcript.reduce((sum, s) => sum + String(s.text).length, 0);
+    if (totalChars <= FULL_CONTEXT_CHARS) {
+      return { excerpts: chunkTranscript(transcript), complete: true };
+    }
+    let excerpts = await retrieve(transcript, query, { k });
+    if (excerpts.length === 0) {
+      const chunks = chunkTranscript(transcript);
+      const step = Math.max(1, chunks.length / k);
+      excerpts = Array.from({ length: Math.min(k, chunks.length) }, (_, i) => chunks[Math.floor(i * step)]);
+    }
+    return { excerpts, complete: false };
+  }
+
+  return { retrieve, buildContext };
+}
+
+export { chunkTranscript, createBm25Index, createRetriever };
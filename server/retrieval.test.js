@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { chunkTranscript, createRetriever } from './retrieval.js';
+import { createProvider } from './llm/index.js';
+
+const TOPICS = ['gradient descent', 'tokenizers', 'attention heads', 'learning rate schedules', 'batch normalization'];
+
+// Long enough that buildContext has to retrieve instead of sending everything
+const longTranscript = () => Array.from({ length: 300 }, (_, i) => ({
+  id: `s${i}`,
+  startTime: i * 10,
+  text: `Segment ${i} talks about ${TOPICS[Math.floor(i / 60)]} with some filler words to pad the chunk out.`,
+}));
+
+// Same wiring as server.js
+const retrieverFor = (llm) => createRetriever({ embed: llm.embed && ((texts) => llm.embed(texts)) });
+
+describe('chunkTranscript', () => {
+  it('groups segments in time order up to the size limit', () => {
+    const chunks = chunkTranscript([
+      { startTime: 70, text: 'third' },
+      { startTime: 0, text: 'first' },
+      { startTime: 5, text: 'second' },
+    ], { maxChars: 20 });
+
+    expect(chunks.map(c => c.text)).toEqual(['[0:00] first', '[0:05] second', '[1:10] third']);
+    expect(chunks[1]).toMatchObject({ startTime: 5, endTime: 5 });
+  });
+});
+
+describe('createRetriever with the mock provider', () => {
+  const llm = createProvider({ LLM_PROVIDER: 'mock' });
+
+  it('uses BM25 when the provider cannot embed', async () => {
+    const hits = await retrieverFor(llm).retrieve(longTranscript(), 'How do attention heads work?', { k: 3 });
+
+    expect(hits).toHaveLength(3);
+    hits.forEach(hit => expect(hit.text).toContain('attention heads'));
+    expect(hits.map(h => h.startTime)).toEqual([...hits.map(h => h.startTime)].sort((a, b) => a - b));
+  });
+
+  it('sends short transcripts whole', async () => {
+    const transcript = longTranscript().slice(0, 5);
+    const { excerpts, complete } = await retrieverFor(llm).buildContext(transcript, 'anything');
+
+    expect(complete).toBe(true);
+    expect(excerpts.map(e => e.text).join('\n')).toContain('Segment 4');
+  });
+
+  it('spreads excerpts over the video when nothing matches', async () => {
+    const { excerpts, complete } = await retrieverFor(llm).buildContext(longTranscript(), 'zzz', { k: 4 });
+
+    expect(complete).toBe(false);
+    expect(excerpts).toHaveLength(4);
+    expect(excerpts[0].startTime).toBe(0);
+    expect(excerpts[3].startTime).toBeGreaterThan(2000);
+  });
+
+  it('falls back to BM25 when embedding fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing = { ...llm, embed: vi.fn(async () => { throw new Error('offline'); }) };
+
+    const hits = await retrieverFor(failing).retrieve(longTranscript(), 'tokenizers', { k: 2 });
+
+    expect(failing.embed).toHaveBeenCalledTimes(1);
+    expect(hits.every(hit => hit.text.includes('tokenizers'))).toBe(true);
+    warn.mockRestore();
+  });
+});
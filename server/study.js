@@ -0,0 +1,124 @@
+/**
+ * Study material generation: multiple-choice questions and flashcards for
+ * each highlight chapter, grounded in the transcript of that chapter.
+ *
+ * Chapters are generated independently (a few at a time), so long videos are
+ * covered end to end instead of being cut off at a prompt size limit.
+ */
+
+import { mapWithConcurrency } from './transcription.js';
+
+const MAX_CHAPTER_CHARS = 8000;
+const CHAPTER_CONCURRENCY = 3;
+const QUIZ_PER_CHAPTER = 2;
+const FLASHCARDS_PER_CHAPTER = 3;
+
+const STUDY_SCHEMA = {
+  type: 'object',
+  properties: {
+    quiz: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' } },
+          answerIndex: { type: 'integer', minimum: 0, maximum: 3 },
+          explanation: { type: 'string' },
+          timestamp: { type: 'number' }
+        },
+        required: ['question', 'options', 'answerIndex', 'explanation', 'timestamp']
+      }
+    },
+    flashcards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          front: { type: 'string' },
+          back: { type: 'string' },
+          timestamp: { type: 'number' }
+        },
+        required: ['front', 'back', 'timestamp']
+      }
+    }
+  },
+  required: ['quiz', 'flashcards']
+};
+
+// Segments that start inside the chapter, as "[123s] text" lines the model can cite
+function chapterText(chapter, transcript) {
+  return transcript
+    .filter(s => s.startTime >= chapter.startTime && s.startTime < chapter.endTime)
+    .map(s => `[${Math.floor(s.startTime)}s] ${s.text}`)
+    .join('\n')
+    .slice(0, MAX_CHAPTER_CHARS);
+}
+
+// Timestamps outside the chapter are model mistakes; point at the chapter start instead
+function clampTimestamp(value, chapter) {
+  const time = Number(value);
+  return Number.isFinite(time) && time >= chapter.startTime && time < chapter.endTime ? time : chapter.startTime;
+}
+
+async function generateChapterStudy(llm, title, chapter, transcript) {
+  const text = chapterText(chapter, transcript);
+  if (!text) return { chapterId: chapter.id, quiz: [], flashcards: [] };
+
+  const prompt = `
+    You are writing active-recall study material for one chapter of the video "${title}".
+
+    Chapter: "${chapter.title}" (${Math.floor(chapter.startTime)}s - ${Math.floor(chapter.endTime)}s)
+
+    Chapter transcript (each line starts with its time in seconds):
+    ${text}
+
+    Task:
+    1. **quiz**: ${QUIZ_PER_CHAPTER} multiple-choice questions with exactly 4 options each.
+       "answerIndex" is the 0-based index of the single correct option; "explanation" says why it is correct.
+    2. **flashcards**: ${FLASHCARDS_PER_CHAPTER} cards with a short prompt on the "front" and a concise answer on the "back".
+
+    Rules:
+    - Test understanding of what is said in this chapter, not trivia about the video itself.
+    - "timestamp" is the time in seconds (from the line prefixes) where the answer is explained.
+    - Write in the language of the transcript.
+  `;
+
+  const content = await llm.generateJson(prompt, STUDY_SCHEMA);
+  const quiz = (content.quiz || [])
+    .filter(q => Array.isArray(q.options) && q.options.length >= 2 && q.answerIndex >= 0 && q.answerIndex < q.options.length)
+    .map(q => ({
+      question: String(q.question),
+      options: q.options.map(String),
+      answerIndex: q.answerIndex,
+      explanation: String(q.explanation || ''),
+      timestamp: clampTimestamp(q.timestamp, chapter)
+    }));
+  const flashcards = (content.flashcards || [])
+    .filter(card => card.front && card.back)
+    .map(card => ({
+      front: String(card.front),
+      back: String(card.back),
+      timestamp: clampTimestamp(card.timestamp, chapter)
+    }));
+
+  return { chapterId: chapter.id, quiz, flashcards };
+}
+
+/**
+ * Resolves with `{ chapterId, quiz, flashcards }` for every highlight.
+ * A chapter whose generation fails comes back empty rather than failing the set.
+ */
+async function generateStudySet(llm, { title, highlights, transcript }) {
+  const chapters = [...highlights].sort((a, b) => a.startTime - b.startTime);
+  return mapWithConcurrency(chapters, CHAPTER_CONCURRENCY, async (chapter) => {
+    try {
+      return await generateChapterStudy(llm, title, chapter, transcript);
+    } catch (error) {
+      console.error(`Study generation failed for chapter "${chapter.title}":`, error);
+      return { chapterId: chapter.id, quiz: [], flashcards: [] };
+    }
+  });
+}
+
+export { generateStudySet };
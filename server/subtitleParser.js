@@ -0,0 +1,130 @@
+/**
+ * Subtitle file parsing (SRT, WebVTT, ASS/SSA and Bilibili BCC JSON).
+ *
+ * Every parser returns `{ startTime, endTime, text }` cues sorted by start time,
+ * with markup stripped and empty cues dropped.
+ */
+
+const SUPPORTED_FORMATS = ['srt', 'vtt', 'ass', 'bcc'];
+
+// "01:02:03,456", "02:03.456" or "1:02:03.45" (ASS centiseconds)
+function parseTimestamp(value) {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h = '0', m, s, frac = '0'] = match;
+  return Number(h) * 3600 + Number(m) * 60 + Number(s) + Number(frac.padEnd(3, '0')) / 1000;
+}
+
+function cleanText(text) {
+  return text
+    .replace(/<[^>]+>/g, '') // HTML-ish tags: <i>, <v Speaker>, <00:00:01.000>
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function finalize(cues) {
+  return cues
+    .filter(cue => cue.text && Number.isFinite(cue.startTime))
+    .sort((a, b) => a.startTime - b.startTime);
+}
+
+// SRT and WebVTT share the same cue shape: optional id, a timing line, then text lines
+function parseCueBlocks(content) {
+  const cues = [];
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue; // header, NOTE, STYLE or REGION block
+
+    const [start, rest] = lines[timingIndex].split('-->');
+    // WebVTT may append cue settings after the end time
+    const end = rest.trim().split(/\s+/)[0];
+    const startTime = parseTimestamp(start);
+    if (startTime === null) continue;
+
+    cues.push({
+      startTime,
+      endTime: parseTimestamp(end),
+      text: cleanText(lines.slice(timingIndex + 1).join(' ')),
+    });
+  }
+  return finalize(cues);
+}
+
+function parseAss(content) {
+  const cues = [];
+  let inEvents = false;
+  let format = null;
+
+  for (const rawLine of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inEvents = line.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) continue;
+
+    if (line.startsWith('Format:')) {
+      format = line.slice('Format:'.length).split(',').map(f => f.trim().toLowerCase());
+      continue;
+    }
+    if (!line.startsWith('Dialogue:') || !format) continue;
+
+    // Text is always the last field and may itself contain commas
+    const values = line.slice('Dialogue:'.length).split(',');
+    const fields = values.slice(0, format.length - 1).concat(values.slice(format.length - 1).join(','));
+    const field = (name) => (fields[format.indexOf(name)] || '').trim();
+
+    const text = field('text')
+      .replace(/\{[^}]*\}/g, '') // override tags like {\i1}
+      .replace(/\\[Nnh]/g, ' ');
+
+    cues.push({
+      startTime: parseTimestamp(field('start')),
+      endTime: parseTimestamp(field('end')),
+      text: cleanText(text),
+    });
+  }
+  return finalize(cues.filter(cue => cue.startTime !== null));
+}
+
+function parseBcc(content) {
+  const json = JSON.parse(content);
+  if (!Array.isArray(json.body)) throw new Error('BCC subtitle has no "body" array');
+  return finalize(json.body.map(item => ({
+    startTime: Number(item.from),
+    endTime: Number(item.to),
+    text: cleanText(String(item.content || '')),
+  })));
+}
+
+function detectFormat(filename, content) {
+  const ext = (filename || '').split('.').pop().toLowerCase();
+  if (ext === 'srt' || ext === 'vtt') return ext;
+  if (ext === 'ass' || ext === 'ssa') return 'ass';
+  if (ext === 'json' || ext === 'bcc') return 'bcc';
+
+  const head = content.trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.startsWith('{')) return 'bcc';
+  if (/^\[Script Info\]/i.test(head)) return 'ass';
+  if (/-->/.test(head)) return 'srt';
+  return null;
+}
+
+function parseSubtitleFile(filename, content) {
+  const format = detectFormat(filename, content);
+  if (!format) {
+    throw new Error(`Unsupported subtitle format. Expected one of: ${SUPPORTED_FORMATS.join(', ')}`);
+  }
+
+  const parse = { srt: parseCueBlocks, vtt: parseCueBlocks, ass: parseAss, bcc: parseBcc }[format];
+  const cues = parse(content.replace(/^\uFEFF/, ''));
+  if (cues.length === 0) throw new Error('No subtitle cues found in file');
+
+  return { format, cues };
+}
+
+export { parseSubtitleFile, parseTimestamp, SUPPORTED_FORMATS };
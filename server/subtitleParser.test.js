@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { parseSubtitleFile, parseTimestamp } from './subtitleParser.js';
+
+describe('parseTimestamp', () => {
+  it('reads SRT, WebVTT and ASS timestamps', () => {
+    expect(parseTimestamp('01:02:03,456')).toBe(3723.456);
+    expect(parseTimestamp('02:03.456')).toBe(123.456);
+    expect(parseTimestamp('1:02:03.45')).toBe(3723.45);
+    expect(parseTimestamp('00:00:07')).toBe(7);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTimestamp('later')).toBeNull();
+    expect(parseTimestamp('1.5')).toBeNull();
+  });
+});
+
+describe('parseSubtitleFile', () => {
+  it('parses SRT, stripping tags and joining lines', () => {
+    const { format, cues } = parseSubtitleFile('a.srt', [
+      '1',
+      '00:00:01,000 --> 00:00:02,500',
+      '<i>Hello</i>',
+      'world',
+      '',
+      '2',
+      '00:00:03,000 --> 00:00:04,000',
+      'Again',
+    ].join('\n'));
+    expect(format).toBe('srt');
+    expect(cues).toEqual([
+      { startTime: 1, endTime: 2.5, text: 'Hello world' },
+      { startTime: 3, endTime: 4, text: 'Again' },
+    ]);
+  });
+
+  it('handles a BOM and CRLF line endings', () => {
+    const content = '\uFEFF1\r\n00:00:01,000 --> 00:00:02,000\r\nFirst\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nSecond\r\n';
+    const { cues } = parseSubtitleFile('a.srt', content);
+    expect(cues.map(c => c.text)).toEqual(['First', 'Second']);
+  });
+
+  it('detects a BOM-prefixed WebVTT file without an extension', () => {
+    const { format, cues } = parseSubtitleFile('', '\uFEFFWEBVTT\r\n\r\n00:01.000 --> 00:02.000\r\nHi\r\n');
+    expect(format).toBe('vtt');
+    expect(cues).toEqual([{ startTime: 1, endTime: 2, text: 'Hi' }]);
+  });
+
+  it('skips malformed and empty cues and sorts the rest', () => {
+    const { cues } = parseSubtitleFile('a.srt', [
+      '1',
+      '00:00:05,000 --> 00:00:06,000',
+      'Late',
+      '',
+      '2',
+      'not a time --> 00:00:02,000',
+      'Broken start',
+      '',
+      'no timing line here',
+      '',
+      '3',
+      '00:00:07,000 --> 00:00:08,000',
+      '<b></b>',
+      '',
+      '4',
+      '00:00:01,000 --> 00:00:02,000',
+      'Early',
+    ].join('\n'));
+    expect(cues.map(c => c.text)).toEqual(['Early', 'Late']);
+  });
+
+  it('ignores WebVTT headers, notes and cue settings', () => {
+    const { cues } = parseSubtitleFile('a.vtt', [
+      'WEBVTT',
+      '',
+      'NOTE this is a comment',
+      '',
+      'intro',
+      '00:00:01.000 --> 00:00:02.000 align:start position:10%',
+      '<v Speaker>Hello</v>',
+    ].join('\n'));
+    expect(cues).toEqual([{ startTime: 1, endTime: 2, text: 'Hello' }]);
+  });
+
+  it('parses ASS dialogue with commas and override tags in the text', () => {
+    const { format, cues } = parseSubtitleFile('a.ass', [
+      '[Script Info]',
+      'Title: Sample',
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:01.50,0:00:03.00,Default,,0,0,0,,{\\i1}Hello{\\i0}, world\\Nagain',
+      'Dialogue: 0,bad,0:00:04.00,Default,,0,0,0,,Dropped',
+      'Comment: 0,0:00:05.00,0:00:06.00,Default,,0,0,0,,Not shown',
+    ].join('\r\n'));
+    expect(format).toBe('ass');
+    expect(cues).toEqual([{ startTime: 1.5, endTime: 3, text: 'Hello, world again' }]);
+  });
+
+  it('parses Bilibili BCC JSON', () => {
+    const { format, cues } = parseSubtitleFile('a.json', JSON.stringify({
+      body: [{ from: 2, to: 3, content: 'Two' }, { from: 0.5, to: 1, content: 'One' }],
+    }));
+    expect(format).toBe('bcc');
+    expect(cues.map(c => c.text)).toEqual(['One', 'Two']);
+  });
+
+  it('rejects BCC without a body and files with no cues', () => {
+    expect(() => parseSubtitleFile('a.json', '{}')).toThrow(/body/);
+    expect(() => parseSubtitleFile('a.srt', 'just text')).toThrow(/No subtitle cues/);
+    expect(() => parseSubtitleFile('a.txt', 'just text')).toThrow(/Unsupported subtitle format/);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Hierarchical video summaries, built map-reduce style so no part of a long
+ * transcript is cut off:
+ *
+ *   map     each chapter's transcript, in windows that fit one prompt, into a
+ *           partial summary plus the key terms it introduces
+ *   reduce  the partial summaries of a chapter into one chapter summary,
+ *           then all chapter summaries into a one-paragraph TL;DR
+ *
+ * Key terms from every window are merged into a glossary, ordered by the
+ * point in the video where each term is first mentioned.
+ */
+
+import { mapWithConcurrency } from './transcription.js';
+
+const WINDOW_CHARS = 12000;
+const CONCURRENCY = 3;
+const MAX_KEY_TERMS = 20;
+
+const MAP_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    keyTerms: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          term: { type: 'string' },
+          definition: { type: 'string' },
+          timestamp: { type: 'number' }
+        },
+        required: ['term', 'definition', 'timestamp']
+      }
+    }
+  },
+  required: ['summary', 'keyTerms']
+};
+
+const REDUCE_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' }
+  },
+  required: ['summary']
+};
+
+/**
+ * Assigns every segment to the chapter it starts in; text before the first
+ * chapter belongs to the first one. Without highlights the video is one chapter.
+ */
+function partitionByChapter(highlights, transcript, duration) {
+  const chapters = highlights.length > 0
+    ? [...highlights].sort((a, b) => a.startTime - b.startTime)
+    : [{ id: 'all', title: 'Full video', startTime: 0, endTime: duration || Infinity }];
+  const parts = chapters.map(chapter => ({ chapter, segments: [] }));
+
+  [...transcript]
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach(segment => {
+      let index = 0;
+      while (index + 1 < chapters.length && chapters[index + 1].startTime <= segment.startTime) index++;
+      parts[index].segments.push(segment);
+    });
+  return parts;
+}
+
+/** Cuts segments into "[123s] text" blocks of at most `maxChars` characters. */
+function toWindows(segments, maxChars = WINDOW_CHARS) {
+  const windows = [];
+  let current = '';
+  segments.forEach(segment => {
+    const line = `[${Math.floor(segment.startTime)}s] ${String(segment.text).trim()}`;
+    if (current && current.length + line.length + 1 > maxChars) {
+      windows.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${line}` : line;
+  });
+  if (current) windows.push(current);
+  return windows;
+}
+
+async function summarizeWindow(llm, title, chapter, text) {
+  const prompt = `
+    Summarize this part of the video "${title}" (chapter "${chapter.title}").
+
+    Transcript (each line starts with its time in seconds):
+    ${text}
+
+    Return:
+    - "summary": 3-6 sentences covering every point made in this part, in order.
+    - "keyTerms": the technical terms, names or concepts this part introduces or explains, each with a
+      one-sentence "definition" as used in the video and the "timestamp" (seconds, from the line prefixes)
+      where it is first mentioned. Skip everyday words.
+    Write in the language of the transcript.
+  `;
+  return llm.generateJson(prompt, MAP_SCHEMA);
+}
+
+async function reduceSummaries(llm, instruction, summaries) {
+  const prompt = `
+    ${instruction}
+
+    Partial summaries, in video order:
+    ${summaries.map((summary, i) => `(${i + 1}) ${summary}`).join('\n\n')}
+
+    Write in the language of the partial summaries.
+  `;
+  const content = await llm.generateJson(prompt, REDUCE_SCHEMA);
+  return String(content.summary || '').trim();
+}
+
+// Models tend to round timestamps; the first segment that contains the term is more precise
+function findFirstMention(term, transcript, fallback) {
+  const needle = term.toLowerCase();
+  const segment = transcript.find(s => String(s.text).toLowerCase().includes(needle));
+  return segment ? segment.startTime : fallback;
+}
+
+function mergeKeyTerms(mapped, transcript) {
+  const byTerm = new Map();
+  mapped.forEach(({ result }) => {
+    (result.keyTerms || []).forEach(item => {
+      const term = String(item.term || '').trim();
+      if (!term || !item.definition) return;
+      const key = term.toLowerCase();
+      const firstMention = findFirstMention(term, transcript, Number(item.timestamp) || 0);
+      const existing = byTerm.get(key);
+      if (!existing || firstMention < existing.firstMention) {
+        byTerm.set(key, { term, definition: String(item.definition).trim(), firstMention });
+      }
+    });
+  });
+  return [...byTerm.values()]
+    .sort((a, b) => a.firstMention - b.firstMention)
+    .slice(0, MAX_KEY_TERMS);
+}
+
+/**
+ * Resolves with `{ tldr, chapters: [{ chapterId, title, startTime, endTime, summary }], keyTerms: [{ term, definition, firstMention }] }`.
+ * `progress(message)` is called as windows and chapters finish.
+ */
+async function generateSummary(llm, { title, highlights = [], transcript, duration }, { progress = () => {} } = {}) {
+  const parts = partitionByChapter(highlights, transcript, duration);
+  const windows = parts.flatMap((part, partIndex) =>
+    toWindows(part.segments).map(text => ({ partIndex, chapter: part.chapter, text }))
+  );
+  if (windows.length === 0) throw new Error('Nothing to summarize: the transcript is empty');
+
+  // Map
+  let finished = 0;
+  const mapped = await mapWithConcurrency(windows, CONCURRENCY, async (window) => {
+    const result = await summarizeWindow(llm, title, window.chapter, window.text);
+    finished += 1;
+    progress(`Summarized ${finished}/${windows.length} transcript windows`);
+    return { partIndex: window.partIndex, result };
+  });
+
+  // Reduce per chapter; a chapter that fit in one window already has its summary
+  const chapters = await mapWithConcurrency(parts, CONCURRENCY, async (part, partIndex) => {
+    const partials = mapped
+      .filter(m => m.partIndex === partIndex)
+      .map(m => String(m.result.summary || '').trim())
+      .filter(Boolean);
+    let summary = partials[0] || '';
+    if (partials.length > 1) {
+      summary = await reduceSummaries(llm,
+        `Merge these consecutive partial summaries of the chapter "${part.chapter.title}" into one summary of 4-8 sentences. Keep every distinct point.`,
+        partials);
+    }
+    const { id, title, startTime, endTime } = part.chapter;
+    return { chapterId: id, title, startTime, endTime, summary };
+  });
+
+  // Reduce to the TL;DR
+  progress('Writing TL;DR');
+  const tldr = await reduceSummaries(llm,
+    `These are summaries of the parts of the video "${title}". Write a single TL;DR paragraph of 2-4 sentences capturing the main message of the whole video.`,
+    chapters.map(c => c.summary).filter(Boolean));
+
+  return {
+    tldr,
+    chapters: highlights.length > 0 ? chapters : [],
+    keyTerms: mergeKeyTerms(mapped, transcript)
+  };
+}
+
+export { generateSummary, partitionByChapter, toWindows };
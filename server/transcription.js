@@ -0,0 +1,207 @@
+/**
+ * Long-audio transcription.
+ *
+ * The audio is cut into overlapping time windows with ffmpeg, each window is
+ * transcribed on its own (a few at a time), and the results are shifted back
+ * to absolute time and stitched into one continuous cue list.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runFfmpeg, isFfmpegAvailable } from './ffmpeg.js';
+
+const DEFAULT_WINDOW_SECONDS = 10 * 60;
+const DEFAULT_OVERLAP_SECONDS = 15;
+const DEFAULT_CONCURRENCY = 3;
+
+// Glossaries go into every transcription prompt, so keep them short
+const MAX_GLOSSARY_TERMS = 100;
+const MAX_GLOSSARY_TERM_LENGTH = 60;
+
+// Inline audio limit of the Gemini REST API; only relevant without ffmpeg
+const MAX_INLINE_AUDIO_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Splits `[0, duration)` into windows of `windowSeconds` that overlap by `overlapSeconds`.
+ * An unknown duration gives one window over the whole audio (`end: Infinity`).
+ */
+function planWindows(duration, { windowSeconds = DEFAULT_WINDOW_SECONDS, overlapSeconds = DEFAULT_OVERLAP_SECONDS } = {}) {
+  if (overlapSeconds >= windowSeconds) throw new Error('Overlap must be shorter than the window');
+  if (!(duration > 0) || !Number.isFinite(duration)) return [{ index: 0, start: 0, end: Infinity }];
+
+  const windows = [];
+  const step = windowSeconds - overlapSeconds;
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(start + windowSeconds, duration);
+    windows.push({ index: windows.length, start, end });
+    if (end >= duration) break;
+  }
+  return windows;
+}
+
+/**
+ * Like Promise.all over `items.map(fn)`, but with at most `limit` calls in flight.
+ * The first failure stops new calls and is rethrown once the calls in flight
+ * have settled, so callers can clean up after it safely.
+ */
+async function mapWithConcurrency(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+  let failure = null;
+
+  async function worker() {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        if (!failure) failure = { error };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  if (failure) throw failure.error;
+  return results;
+}
+
+/** Cleans a user glossary (names and terms to spell correctly): trimmed, de-duplicated strings only. */
+function normalizeGlossary(terms) {
+  if (!Array.isArray(terms)) return [];
+  const seen = new Set();
+  return terms
+    .filter(term => typeof term === 'string')
+    .map(term => term.replace(/\s+/g, ' ').trim().slice(0, MAX_GLOSSARY_TERM_LENGTH))
+    .filter(term => {
+      const key = term.toLowerCase();
+      if (!term || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_GLOSSARY_TERMS);
+}
+
+function normalizeText(text) {
+  return text.toLowerCase().replace(/[\s\p{P}]+/gu, '');
+}
+
+/**
+ * Merges per-window cues (relative to their window) into absolute time.
+ *
+ * Each overlap is split at its midpoint: a window owns the cues that start in
+ * its half of the overlap. A cue whose text repeats the previously kept cue is
+ * dropped too, which catches sentences both windows heard around the cut.
+ */
+function mergeWindowTranscripts(windows, cuesPerWindow) {
+  const merged = [];
+
+  windows.forEach((window, i) => {
+    const prev = windows[i - 1];
+    const next = windows[i + 1];
+    const lowerCut = prev ? (window.start + prev.end) / 2 : -Infinity;
+    const upperCut = next ? (next.start + window.end) / 2 : Infinity;
+
+    (cuesPerWindow[i] || [])
+      .map(cue => ({ ...cue, startTime: window.start + Math.max(0, Number(cue.startTime) || 0) }))
+      .filter(cue => cue.startTime >= lowerCut && cue.startTime < upperCut)
+      .sort((a, b) => a.startTime - b.startTime)
+      .forEach(cue => {
+        const text = String(cue.text || '').trim();
+        if (!text) return;
+        const last = merged[merged.length - 1];
+        if (last) {
+          const a = normalizeText(last.text);
+          const b = normalizeText(text);
+          if (a === b || (b.length > 0 && a.endsWith(b))) return;
+        }
+        // Keep start times monotonic even if the model reports slightly early times
+        const startTime = last ? Math.max(cue.startTime, last.startTime) : cue.startTime;
+        merged.push({ startTime, text });
+      });
+  });
+
+  return merged;
+}
+
+// An empty result would be cached as a successful AI transcription
+function requireCues(cues) {
+  if (cues.length === 0) throw new Error('Transcription returned no text');
+  return cues;
+}
+
+async function extractWindow(inputPath, window, signal) {
+  const length = Number.isFinite(window.end) ? ['-t', String(window.end - window.start)] : [];
+  return runFfmpeg([
+    '-ss', String(window.start),
+    ...length,
+    '-i', inputPath,
+    '-vn', '-ac', '1', '-ar', '16000', '-b:a', '48k',
+    '-f', 'mp3', 'pipe:1'
+  ], { signal });
+}
+
+/**
+ * Transcribes a full audio buffer.
+ *
+ * `transcribe(buffer, mimeType)` must resolve with cues `{ startTime, text }`
+ * relative to the start of the buffer. Progress is reported per finished window.
+ */
+async function transcribeLongAudio(audioBuffer, {
+  duration,
+  mimeType,
+  transcribe,
+  progress = () => {},
+  signal,
+  windowSeconds = DEFAULT_WINDOW_SECONDS,
+  overlapSeconds = DEFAULT_OVERLAP_SECONDS,
+  concurrency = Number(process.env.TRANSCRIBE_CONCURRENCY) || DEFAULT_CONCURRENCY
+}) {
+  if (!(await isFfmpegAvailable())) {
+    // Without ffmpeg we can't cut the audio, so send it whole if the API accepts it
+    if (audioBuffer.byteLength > MAX_INLINE_AUDIO_BYTES) {
+      throw new Error('ffmpeg is required to transcribe audio larger than 20 MB');
+    }
+    progress('transcription', 'Transcribing audio (chunk 1/1)...', { current: 0, total: 1 });
+    const whole = [{ index: 0, start: 0, end: Infinity }];
+    return requireCues(mergeWindowTranscripts(whole, [await transcribe(audioBuffer, mimeType)]));
+  }
+
+  const windows = planWindows(duration, { windowSeconds, overlapSeconds });
+  const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'bilicut-'));
+  const inputPath = path.join(tmpDir, 'audio');
+  // One failed window stops the ffmpeg runs of the others before the temp directory goes
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal) signal.addEventListener('abort', abort);
+  let finished = 0;
+
+  try {
+    await fs.promises.writeFile(inputPath, audioBuffer);
+    progress('transcription', `Transcribing audio (chunk 0/${windows.length})...`, { current: 0, total: windows.length });
+
+    const cuesPerWindow = await mapWithConcurrency(windows, concurrency, async (window) => {
+      if (controller.signal.aborted) throw new Error('Transcription cancelled');
+      try {
+        const chunk = await extractWindow(inputPath, window, controller.signal);
+        const cues = await transcribe(chunk, 'audio/mp3');
+        finished += 1;
+        progress('transcription', `Transcribing audio (chunk ${finished}/${windows.length})...`, {
+          current: finished,
+          total: windows.length
+        });
+        return cues;
+      } catch (error) {
+        controller.abort();
+        throw error;
+      }
+    });
+
+    return requireCues(mergeWindowTranscripts(windows, cuesPerWindow));
+  } finally {
+    if (signal) signal.removeEventListener('abort', abort);
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  }
+}
+
+export { planWindows, mapWithConcurrency, normalizeGlossary, mergeWindowTranscripts, transcribeLongAudio };
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import { describe, expect, it, vi } from 'vitest';
+
+// server/ffmpeg.js reads FFMPEG_PATH when loaded; fall back to the binary from the dev dependency
+const require = createRequire(import.meta.url);
+process.env.FFMPEG_PATH ||= require('@ffmpeg-installer/ffmpeg').path;
+
+const { planWindows, mapWithConcurrency, normalizeGlossary, mergeWindowTranscripts, transcribeLongAudio } = await import('./transcription.js');
+const { isFfmpegAvailable } = await import('./ffmpeg.js');
+
+// 4 s of test pattern with a 440 Hz tone (see clips.test.js)
+const SAMPLE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'sample.mp4');
+
+// transcribeLongAudio's own temp directories (mkdtemp appends six characters)
+const tempDirs = () => fs.readdirSync(os.tmpdir()).filter(name => /^bilicut-[A-Za-z0-9]{6}$/.test(name));
+
+describe('planWindows', () => {
+  it('covers the duration with overlapping windows', () => {
+    expect(planWindows(25, { windowSeconds: 10, overlapSeconds: 2 })).toEqual([
+      { index: 0, start: 0, end: 10 },
+      { index: 1, start: 8, end: 18 },
+      { index: 2, start: 16, end: 25 },
+    ]);
+  });
+
+  it('uses one window for short audio', () => {
+    expect(planWindows(5, { windowSeconds: 10, overlapSeconds: 2 })).toEqual([{ index: 0, start: 0, end: 5 }]);
+  });
+
+  it('falls back to one open-ended window when the duration is unknown', () => {
+    [0, undefined, NaN, -3].forEach(duration => {
+      expect(planWindows(duration)).toEqual([{ index: 0, start: 0, end: Infinity }]);
+    });
+  });
+
+  it('rejects an overlap as long as the window', () => {
+    expect(() => planWindows(60, { windowSeconds: 10, overlapSeconds: 10 })).toThrow(/Overlap/);
+  });
+});
+
+describe('mergeWindowTranscripts', () => {
+  const windows = planWindows(25, { windowSeconds: 10, overlapSeconds: 2 });
+
+  it('shifts cues by their window start', () => {
+    const merged = mergeWindowTranscripts(windows, [
+      [{ startTime: 1, text: 'one' }],
+      [{ startTime: 3, text: 'two' }],
+      [{ startTime: 4, text: 'three' }],
+    ]);
+    expect(merged).toEqual([
+      { startTime: 1, text: 'one' },
+      { startTime: 11, text: 'two' },
+      { startTime: 20, text: 'three' },
+    ]);
+  });
+
+  it('splits each overlap at its midpoint so both windows never keep the same stretch', () => {
+    // The first overlap is [8, 10): the first window owns up to 9, the second from 9 on
+    const merged = mergeWindowTranscripts(windows.slice(0, 2), [
+      [{ startTime: 7, text: 'kept from the first' }, { startTime: 9.5, text: 'heard by both' }],
+      [{ startTime: 0.5, text: 'dropped, owned by the first' }, { startTime: 1.5, text: 'heard by both' }, { startTime: 5, text: 'later' }],
+    ]);
+    expect(merged.map(c => c.text)).toEqual(['kept from the first', 'heard by both', 'later']);
+    expect(merged[1].startTime).toBe(9.5);
+  });
+
+  it('drops a cue that repeats the end of the previous one, ignoring case and punctuation', () => {
+    const merged = mergeWindowTranscripts(windows.slice(0, 2), [
+      [{ startTime: 8.5, text: 'So, the next step is training.' }],
+      [{ startTime: 1.2, text: 'the next step is training' }, { startTime: 2, text: 'New sentence' }],
+    ]);
+    expect(merged.map(c => c.text)).toEqual(['So, the next step is training.', 'New sentence']);
+  });
+
+  it('keeps start times monotonic and skips empty cues', () => {
+    const merged = mergeWindowTranscripts([{ index: 0, start: 0, end: Infinity }], [[
+      { startTime: 5, text: 'b' },
+      { startTime: 2, text: '  ' },
+      { startTime: -1, text: 'a' },
+      { startTime: 'x', text: 'c' },
+    ]]);
+    expect(merged).toEqual([{ startTime: 0, text: 'a' }, { startTime: 0, text: 'c' }, { startTime: 5, text: 'b' }]);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps at most `limit` calls in flight and preserves order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      inFlight--;
+      return ms * 2;
+    });
+    expect(results).toEqual([60, 20, 40, 10]);
+    expect(peak).toBe(2);
+  });
+
+  it('stops starting calls after a failure and rejects only once the others settle', async () => {
+    const settled = [];
+    const started = [];
+    const run = mapWithConcurrency([0, 1, 2, 3], 2, async (item) => {
+      started.push(item);
+      if (item === 0) throw new Error('boom');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      settled.push(item);
+    });
+
+    await expect(run).rejects.toThrow('boom');
+    expect(started).toEqual([0, 1]);
+    expect(settled).toEqual([1]);
+  });
+});
+
+describe('normalizeGlossary', () => {
+  it('trims, de-duplicates and drops non-strings', () => {
+    expect(normalizeGlossary([' PyTorch ', 'pytorch', 42, '', 'Transformer  model'])).toEqual(['PyTorch', 'Transformer model']);
+    expect(normalizeGlossary('PyTorch')).toEqual([]);
+  });
+});
+
+describe.skipIf(!(await isFfmpegAvailable()))('transcribeLongAudio', () => {
+  const audio = fs.readFileSync(SAMPLE);
+
+  it('transcribes each window and merges the cues in absolute time', async () => {
+    let call = 0;
+    const transcribe = vi.fn(async (chunk, mimeType) => {
+      expect(mimeType).toBe('audio/mp3');
+      expect(chunk.byteLength).toBeGreaterThan(0);
+      call += 1;
+      return [{ startTime: 0.5, text: `window ${call}` }];
+    });
+
+    const cues = await transcribeLongAudio(audio, {
+      duration: 4, transcribe, windowSeconds: 2, overlapSeconds: 0.5, concurrency: 1,
+    });
+    expect(transcribe).toHaveBeenCalledTimes(3);
+    expect(cues).toEqual([
+      { startTime: 0.5, text: 'window 1' },
+      { startTime: 2, text: 'window 2' },
+      { startTime: 3.5, text: 'window 3' },
+    ]);
+  }, 60000);
+
+  it('transcribes the whole audio at once when the duration is unknown', async () => {
+    const transcribe = vi.fn(async () => [{ startTime: 1, text: 'all of it' }]);
+    await expect(transcribeLongAudio(audio, { duration: 0, transcribe })).resolves.toEqual([{ startTime: 1, text: 'all of it' }]);
+    expect(transcribe).toHaveBeenCalledTimes(1);
+  }, 60000);
+
+  it('fails instead of returning an empty transcript', async () => {
+    await expect(transcribeLongAudio(audio, { duration: 4, transcribe: async () => [] })).rejects.toThrow(/no text/);
+  }, 60000);
+
+  it('removes the temp directory only after the other windows have stopped', async () => {
+    const before = tempDirs();
+    let slowFinished = false;
+    let secondStarted;
+    const second = new Promise(resolve => { secondStarted = resolve; });
+    let calls = 0;
+    // The first window fails while the second is still being transcribed
+    const transcribe = async () => {
+      if (calls++ === 0) {
+        await second;
+        throw new Error('window failed');
+      }
+      secondStarted();
+      await new Promise(resolve => setTimeout(resolve, 100));
+      slowFinished = true;
+      return [];
+    };
+
+    await expect(transcribeLongAudio(audio, {
+      duration: 4, transcribe, windowSeconds: 2, overlapSeconds: 0.5, concurrency: 2,
+    })).rejects.toThrow('window failed');
+    expect(slowFinished).toBe(true);
+    expect(tempDirs()).toEqual(before);
+  }, 60000);
+});
+
+describe('transcribeLongAudio without ffmpeg', () => {
+  it('sorts and merges the cues of the whole file', async () => {
+    vi.resetModules();
+    vi.doMock('./ffmpeg.js', () => ({ isFfmpegAvailable: async () => false, runFfmpeg: vi.fn() }));
+    const { transcribeLongAudio: transcribeWithoutFfmpeg } = await import('./transcription.js');
+
+    const cues = await transcribeWithoutFfmpeg(Buffer.alloc(8), {
+      transcribe: async () => [
+        { startTime: 4, text: 'second' },
+        { startTime: 1, text: 'first' },
+        { startTime: 2, text: 'First.' },
+        { startTime: 3, text: '' },
+      ],
+    });
+    expect(cues).toEqual([{ startTime: 1, text: 'first' }, { startTime: 4, text: 'second' }]);
+    vi.doUnmock('./ffmpeg.js');
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * LLM-generated video content: chapter highlights, simulated transcripts and
+ * the chat system prompt. Generators take the provider as their first
+ * argument, so the mock provider can drive them offline.
+ */
+
+import { normalizeHighlights } from './chapters.js';
+
+// Enough transcript for chaptering without blowing the context window on long videos
+const MAX_TRANSCRIPT_CHARS = 15000;
+// Lines shorter than this say too little to place a chapter boundary by
+const MIN_CHAPTERING_LINE_CHARS = 60;
+
+const HIGHLIGHT_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    startTime: { type: 'number' },
+    endTime: { type: 'number' },
+    color: { type: 'string' },
+    description: { type: 'string' }
+  },
+  required: ['id', 'title', 'startTime', 'endTime', 'color', 'description']
+};
+
+const VIDEO_CONTENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    highlights: { type: 'array', items: HIGHLIGHT_SCHEMA },
+    transcript: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          text: { type: 'string' },
+          timestamp: { type: 'string' },
+          startTime: { type: 'number' }
+        },
+        required: ['id', 'text', 'timestamp', 'startTime']
+      }
+    }
+  },
+  required: ['highlights', 'transcript']
+};
+
+/**
+ * Generates highlights and a simulated transcript when official data is missing.
+ * Uses metadata (Title, Description, Category, Author) to hallucinate a plausible structure.
+ */
+async function generateVideoContent(llm, { title, description = '', duration, category = 'General', author = 'Creator' }) {
+  const prompt = `
+    I have a Bilibili video but NO subtitles. I need you to generate a *simulated* transcript and highlights based on the metadata.
+
+    Video Details:
+    - Title: "${title}"
+    - Author: "${author}"
+    - Category: "${category}"
+    - Duration: ${duration} seconds
+    - Description: "${description.slice(0, 1000)}"
+
+    Task:
+    1. **Highlights**: Create 4-6 key chapters/highlights with estimated timestamps and distinct colors.
+    2. **Transcript**: Create a *simulated* transcript.
+       - Break it down into segments roughly every 45-90 seconds.
+       - The text should be a high-quality summary of what is likely being discussed in that segment based on the title/category.
+       - It should read like a spoken script or a detailed summary.
+
+    Return the response in JSON format.
+  `;
+
+  const content = await llm.generateJson(prompt, VIDEO_CONTENT_SCHEMA);
+  const transcript = content.transcript || [];
+  const highlights = normalizeHighlights(content.highlights || [], {
+    duration,
+    segmentStarts: transcript.map(t => t.startTime)
+  });
+  return { highlights, transcript };
+}
+
+const CHAPTERS_SCHEMA = {
+  type: 'object',
+  properties: {
+    chapters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          startTime: { type: 'number' },
+          description: { type: 'string' }
+        },
+        required: ['title', 'startTime', 'description']
+      }
+    }
+  },
+  required: ['chapters']
+};
+
+/**
+ * "[123s] text" lines covering the whole transcript in about `maxChars`.
+ * Long transcripts are condensed by merging consecutive segments and
+ * trimming their text, so the end of the video is never cut off.
+ */
+function chapteringLines(transcript, maxChars = MAX_TRANSCRIPT_CHARS) {
+  const segments = [...transcript].sort((a, b) => a.startTime - b.startTime);
+  const perGroup = Math.max(1, Math.ceil((segments.length * MIN_CHAPTERING_LINE_CHARS) / maxChars));
+  const lineChars = Math.max(MIN_CHAPTERING_LINE_CHARS, Math.floor(maxChars / Math.ceil(segments.length / perGroup)));
+
+  const lines = [];
+  for (let i = 0; i < segments.length; i += perGroup) {
+    const group = segments.slice(i, i + perGroup);
+    const text = group.map(s => String(s.text).trim()).join(' ').slice(0, lineChars);
+    lines.push(`[${Math.floor(group[0].startTime)}s] ${text}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Chapters a real transcript. The model only picks start times from the
+ * segment timestamps; boundaries are then snapped to segment starts and
+ * validated, so chapters never overlap or run past the video.
+ */
+async function generateHighlightsFromTranscript(llm, video, transcript) {
+  if (transcript.length === 0) return [];
+  const prompt = `
+    Split the video "${video.title}" into 4-8 chapters based on what is actually said.
+
+    Transcript (each line starts with its time in seconds):
+    ${chapteringLines(transcript)}
+
+    For each chapter return:
+    - "startTime": the time in seconds of the line where the chapter begins, copied from the line prefixes.
+      The first chapter starts at the first line.
+    - "title": a short title (at most 8 words).
+    - "description": one sentence on what the chapter covers.
+    Write in the language of the transcript.
+  `;
+
+  const content = await llm.generateJson(prompt, CHAPTERS_SCHEMA);
+  return normalizeHighlights(content.chapters || [], {
+    duration: video.duration,
+    segmentStarts: transcript.map(t => t.startTime)
+  });
+}
+
+const SUGGESTED_QUESTIONS_SCHEMA = {
+  type: 'object',
+  properties: {
+    questions: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['questions']
+};
+
+const SUGGESTED_QUESTION_COUNT = 4;
+
+/**
+ * Questions a viewer is likely to ask about this particular video, shown as
+ * starter chips in the chat. Grounded in the chapter titles and the transcript.
+ */
+async function generateSuggestedQuestions(llm, { title, highlights = [], transcript = [] }) {
+  const chapters = highlights.map(h => `- ${h.title}`).join('\n');
+  const transcriptText = transcript.map(t => t.text).join(' ').slice(0, MAX_TRANSCRIPT_CHARS);
+
+  const prompt = `
+    Suggest ${SUGGESTED_QUESTION_COUNT} short questions a learner might ask an AI assistant about this video.
+
+    Video title: "${title}"
+    Chapters:
+    ${chapters || '(none)'}
+
+    Transcript excerpt:
+    ${transcriptText}
+
+    Requirements:
+    - Each question must be answerable from the video and refer to its actual topics, not generic filler.
+    - Mix overview questions (takeaways, summary) with specific ones about concepts from the chapters.
+    - At most 12 words each. Write them in the language of the transcript.
+  `;
+
+  const content = await llm.generateJson(prompt, SUGGESTED_QUESTIONS_SCHEMA);
+  return (content.questions || [])
+    .map(q => String(q).trim())
+    .filter(Boolean)
+    .slice(0, SUGGESTED_QUESTION_COUNT);
+}
+
+/**
+ * System prompt for one chat turn. `excerpts` are transcript chunks whose
+ * lines start with `[m:ss]`; `complete` says whether they cover the whole video.
+ */
+function buildChatInstruction({ title, excerpts, complete }) {
+  const context = excerpts.map(chunk => chunk.text).join('\n\n');
+  const coverage = complete
+    ? 'Below is the full transcript of the video.'
+    : 'Below are the transcript passages most relevant to the question, in video order (the rest of the transcript is omitted).';
+
+  return `
+    You are an AI learning assistant for a video${title ? ` titled "${title}"` : ''}.
+    ${coverage}
+    Answer the user's questions based primarily on this transcript.
+    Cite the moments you rely on with their timestamps in square brackets exactly as they appear, e.g. [12:34].
+    Only cite timestamps that appear in the transcript below.
+    If the answer is not in the transcript, use your general knowledge but mention that it wasn't explicitly in the video.
+    Keep answers concise, helpful, and encouraging.
+
+    TRANSCRIPT:
+    ${context}
+  `;
+}
+
+export { generateVideoContent, generateHighlightsFromTranscript, generateSuggestedQuestions, buildChatInstruction };
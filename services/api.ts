@@ -1,99 +1,361 @@
-import { VideoData, TranscriptSegment } from '../types';
-import { fetchBilibiliVideoInfo, extractBvid } from './bilibiliService';
-import { generateVideoContent } from './geminiService';
+import { VideoData, TranscriptSegment, Highlight, SubtitleSource, AnalysisProgress, ChatMessage, StudyCard, VideoSummary } from '../types';
+import { fetchBilibiliVideoInfo, extractBvid, extractPage } from './bilibiliService';
+import { newReviewState } from '../utils/sm2';
+import { transcriptFingerprint } from '../utils/summaryAnchors';
 
-const BACKEND_URL = 'http://localhost:3000/api/analyze';
+// Backend port (server.js PORT); the app itself runs on 3000
+const API_BASE = 'http://localhost:3001/api';
 
 interface AnalyzeResult {
   data: VideoData;
   source: 'backend' | 'ai-simulated';
 }
 
-export const analyzeVideo = async (url: string): Promise<AnalyzeResult> => {
-  // 1. Try Backend
-  try {
-    const response = await fetch(BACKEND_URL, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ url }),
-    });
+interface AnalyzeOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal;
+  glossary?: string[]; // Terms for AI transcription to spell correctly
+}
+
+/**
+ * ID of the backend cache entry for a video. Must match `cacheIdFor` in server.js:
+ * each Bilibili part is cached separately, and part 1 keeps the bare BV ID.
+ */
+export const getCacheId = (video: Pick<VideoData, 'bvid' | 'page'>) =>
+  video.page && video.page > 1 ? `${video.bvid}_p${video.page}` : video.bvid;
 
-    if (response.ok) {
-      const json = await response.json();
-      
-      let finalTranscript = json.transcript;
-      let highlights = [];
-      let isSimulated = false;
-      let isAiTranscribed = false;
-
-      // Check source returned by backend
-      if (json.subtitleSource === 'official') {
-         // Has Official Subtitles
-         isSimulated = false;
-         isAiTranscribed = false;
-      } else if (json.subtitleSource === 'ai_transcription') {
-         // Has Real AI Transcribed Subtitles (High Quality)
-         isSimulated = false;
-         isAiTranscribed = true;
-      } else {
-         // No subtitles found even after audio download attempt
-         isSimulated = true;
-         isAiTranscribed = false;
+const cancelledError = () => new DOMException("Analysis cancelled", "AbortError");
+
+/**
+ * Starts a backend analysis job and follows its progress over SSE.
+ * Aborting `signal` cancels the job on the server as well.
+ */
+const runAnalysisJob = async (url: string, { onProgress, signal, glossary }: AnalyzeOptions): Promise<any> => {
+  const response = await fetch(`${API_BASE}/jobs`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url, glossary }),
+    signal,
+  });
+  if (!response.ok) throw new Error(`Backend rejected analysis (${response.status})`);
+  const { id } = await response.json();
+
+  return new Promise((resolve, reject) => {
+    // EventSource reconnects on its own; the server replays past events, so that's safe
+    const source = new EventSource(`${API_BASE}/jobs/${id}/events`);
+
+    const cleanup = () => {
+      source.close();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      fetch(`${API_BASE}/jobs/${id}`, { method: 'DELETE' }).catch(() => {});
+      reject(cancelledError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    source.onmessage = (e) => {
+      const event = JSON.parse(e.data);
+      switch (event.type) {
+        case 'progress':
+          onProgress?.({ stage: event.stage, message: event.message, current: event.current, total: event.total });
+          break;
+        case 'done':
+          cleanup();
+          resolve(event.result);
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(event.error));
+          break;
+        case 'cancelled':
+          cleanup();
+          reject(cancelledError());
+          break;
       }
+    };
 
-      // Logic to generate Highlights
-      // If we have ANY transcript (Official or AI Transcribed), we use it to generate highlights
-      if (!isSimulated && finalTranscript.length > 0) {
-         const transcriptText = finalTranscript.map((t: any) => t.text).join(" ").slice(0, 15000); 
-         const aiContent = await generateVideoContent(
-            json.title, 
-            `TRANSCRIPT_CONTEXT: ${transcriptText}`, 
-            json.duration,
-            json.category,
-            json.author
-         );
-         highlights = aiContent.highlights;
-      } 
-      // If completely simulated
-      else {
-         console.log("No transcript available. Using full simulation.");
-         const aiContent = await generateVideoContent(
-            json.title, 
-            json.description, 
-            json.duration,
-            json.category,
-            json.author
-         );
-         finalTranscript = aiContent.transcript;
-         highlights = aiContent.highlights;
+    source.onerror = () => {
+      // A CLOSED source won't retry (e.g. the job expired on the server)
+      if (source.readyState === EventSource.CLOSED) {
+        cleanup();
+        reject(new Error("Lost connection to analysis job"));
       }
+    };
+  });
+};
 
-      const videoData: VideoData = {
-        platform: (json.platform as 'bilibili' | 'youtube') || 'bilibili',
-        bvid: json.bvid,
-        title: json.title,
-        author: json.author,
-        category: json.category,
-        duration: json.duration,
-        thumbnail: json.thumbnail,
-        highlights: highlights,
-        transcript: finalTranscript,
-        isTranscriptSimulated: isSimulated,
-        isAiTranscribed: isAiTranscribed
-      };
+/** Reads the JSON error body the backend sends with a failed request. */
+const errorFrom = async (response: Response, fallback: string) => {
+  const json = await response.json().catch(() => null);
+  if (response.status === 429) return new Error(json?.error || "Too many requests. Please try again shortly.");
+  return new Error(json?.error || fallback);
+};
 
-      return { data: videoData, source: 'backend' };
+export interface GeneratedContent {
+  highlights: Highlight[];
+  suggestedQuestions?: string[];
+  // Only set when there was no transcript to chapter and the backend simulated one
+  transcript?: TranscriptSegment[];
+  simulated?: boolean;
+}
+
+/**
+ * Asks the backend to chapter a video. Pass `transcript` to chapter text the
+ * backend hasn't seen (e.g. an import); videos the backend never cached also
+ * send their metadata so it can simulate content for them.
+ */
+export const generateHighlights = async (
+  video: Pick<VideoData, 'platform' | 'bvid' | 'page' | 'title' | 'duration' | 'category' | 'author'> & { description?: string },
+  transcript?: TranscriptSegment[]
+): Promise<GeneratedContent> => {
+  const response = await fetch(`${API_BASE}/highlights`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      platform: video.platform,
+      id: getCacheId(video),
+      transcript,
+      video: {
+        title: video.title,
+        description: video.description,
+        duration: video.duration,
+        category: video.category,
+        author: video.author,
+      },
+    }),
+  });
+  if (!response.ok) throw await errorFrom(response, "Failed to generate highlights");
+  return response.json();
+};
+
+interface ChatOptions {
+  onDelta?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Sends a chat message about a video. The backend is stateless, so the
+ * transcript and prior turns go with every message; it retrieves the
+ * passages relevant to the question. The reply streams in through
+ * `onDelta`; the full text is returned at the end.
+ */
+export const streamChat = async (
+  title: string,
+  transcript: TranscriptSegment[],
+  history: ChatMessage[],
+  message: string,
+  { onDelta, signal }: ChatOptions = {}
+): Promise<string> => {
+  const response = await fetch(`${API_BASE}/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      title,
+      transcript,
+      history: history.map(m => ({ role: m.role, text: m.text })),
+      message,
+    }),
+    signal,
+  });
+  if (!response.ok || !response.body) throw await errorFrom(response, "Chat request failed");
+
+  // Server-sent events over a POST response, so EventSource can't be used
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let reply = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const events = buffered.split('\n\n');
+    buffered = events.pop()!;
+    for (const raw of events) {
+      if (!raw.startsWith('data: ')) continue;
+      const event = JSON.parse(raw.slice('data: '.length));
+      if (event.type === 'delta') {
+        reply += event.text;
+        onDelta?.(event.text);
+      } else if (event.type === 'error') {
+        throw new Error(event.error);
+      }
     }
+  }
+  return reply;
+};
+
+interface ChapterStudy {
+  chapterId: string;
+  quiz: { question: string; options: string[]; answerIndex: number; explanation: string; timestamp: number }[];
+  flashcards: { front: string; back: string; timestamp: number }[];
+}
+
+/** Generates quiz questions and flashcards for every highlight chapter, as new (unreviewed) cards. */
+export const generateStudyCards = async (video: VideoData): Promise<StudyCard[]> => {
+  const response = await fetch(`${API_BASE}/study`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title: video.title, highlights: video.highlights, transcript: video.transcript }),
+  });
+  if (!response.ok) throw await errorFrom(response, "Failed to generate study material");
+  const { chapters }: { chapters: ChapterStudy[] } = await response.json();
+
+  const now = Date.now();
+  const base = { platform: video.platform, bvid: video.bvid, page: video.page, createdAt: now, ...newReviewState(now) };
+  return chapters.flatMap(chapter => {
+    const chapterTitle = video.highlights.find(h => h.id === chapter.chapterId)?.title ?? '';
+    const id = (kind: string, i: number) => `${video.platform}:${getCacheId(video)}:${chapter.chapterId}:${kind}${i}:${now}`;
+    return [
+      ...chapter.quiz.map((q, i): StudyCard => ({
+        ...base,
+        id: id('q', i),
+        chapterId: chapter.chapterId,
+        chapterTitle,
+        kind: 'quiz',
+        front: q.question,
+        back: q.explanation,
+        options: q.options,
+        answerIndex: q.answerIndex,
+        timestamp: q.timestamp,
+      })),
+      ...chapter.flashcards.map((f, i): StudyCard => ({
+        ...base,
+        id: id('f', i),
+        chapterId: chapter.chapterId,
+        chapterTitle,
+        kind: 'flashcard',
+        front: f.front,
+        back: f.back,
+        timestamp: f.timestamp,
+      })),
+    ];
+  });
+};
+
+/**
+ * Summarizes the whole transcript: a TL;DR, one summary per highlight chapter
+ * and a glossary. The backend caches the result; `force` regenerates it.
+ */
+export const generateSummary = async (video: VideoData, { force = false } = {}): Promise<VideoSummary> => {
+  const response = await fetch(`${API_BASE}/summary`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      platform: video.platform,
+      id: getCacheId(video),
+      title: video.title,
+      duration: video.duration,
+      highlights: video.highlights,
+      transcript: video.transcript,
+      force,
+    }),
+  });
+  if (!response.ok) throw await errorFrom(response, "Failed to generate summary");
+  const { summary, cached } = await response.json();
+  // A summary cached by the backend may predate the current transcript, so only fresh ones are fingerprinted
+  return cached ? summary : { ...summary, transcriptFingerprint: transcriptFingerprint(video.transcript) };
+};
+
+export type ClipFormat = 'mp4' | 'mp3';
+// Burned into the picture (MP4 only), a separate .srt next to the clip, or none
+export type ClipSubtitles = 'none' | 'burn' | 'sidecar';
+
+export interface ClipOptions {
+  format: ClipFormat;
+  subtitles: ClipSubtitles;
+}
+
+export interface ExportedClip {
+  title: string;
+  filename: string;
+  url: string;
+  subtitlesUrl?: string;
+}
+
+/**
+ * Cuts highlights (or any time ranges) into clips on the backend. The clips
+ * stay downloadable from the returned URLs for a while.
+ */
+export const exportClips = async (
+  video: VideoData,
+  ranges: Pick<Highlight, 'startTime' | 'endTime' | 'title'>[],
+  { format, subtitles }: ClipOptions
+): Promise<ExportedClip[]> => {
+  const response = await fetch(`${API_BASE}/clips`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      platform: video.platform,
+      id: video.bvid,
+      page: video.page ?? 1,
+      title: video.title,
+      ranges: ranges.map(({ startTime, endTime, title }) => ({ startTime, endTime, title })),
+      format,
+      subtitles,
+      transcript: video.transcript,
+    }),
+  });
+  if (!response.ok) throw await errorFrom(response, "Failed to export clips");
+  const { clips }: { clips: { title: string; filename: string; path: string; subtitlesPath?: string }[] } = await response.json();
+  return clips.map(clip => ({
+    title: clip.title,
+    filename: clip.filename,
+    url: `${API_BASE}/clips${clip.path}`,
+    subtitlesUrl: clip.subtitlesPath && `${API_BASE}/clips${clip.subtitlesPath}`,
+  }));
+};
+
+export const analyzeVideo = async (url: string, { onProgress, signal, glossary }: AnalyzeOptions = {}): Promise<AnalyzeResult> => {
+  onProgress?.({ stage: 'connecting', message: "Connecting to analysis service..." });
+
+  // 1. Try Backend
+  try {
+    const json = await runAnalysisJob(url, { onProgress, signal, glossary });
+    
+    // Highlights (and, without any subtitles, a simulated transcript) are generated by the job
+    const isSimulated = json.isTranscriptSimulated === true || json.subtitleSource === 'none';
+    const isAiTranscribed = json.subtitleSource === 'ai_transcription';
+
+    if (signal?.aborted) throw cancelledError();
+
+    const videoData: VideoData = {
+      platform: (json.platform as 'bilibili' | 'youtube') || 'bilibili',
+      bvid: json.bvid,
+      title: json.title,
+      author: json.author,
+      category: json.category,
+      duration: json.duration,
+      thumbnail: json.thumbnail,
+      page: json.page,
+      pages: json.pages,
+      highlights: json.highlights || [],
+      transcript: json.transcript,
+      subtitleTracks: json.subtitleTracks,
+      activeTrackId: json.activeTrackId,
+      isTranscriptSimulated: isSimulated,
+      isAiTranscribed: isAiTranscribed,
+      subtitleSource: (json.subtitleSource as SubtitleSource) || 'none',
+      suggestedQuestions: json.suggestedQuestions || [],
+      summary: json.summary || null
+    };
+
+    return { data: videoData, source: 'backend' };
   } catch (error) {
+    if (signal?.aborted) throw cancelledError();
     console.warn("Backend connection failed, falling back to client-side mode.", error);
   }
 
-  // 2. Fallback: Client Side Proxy + AI Hallucination (Offline Mode)
+  // 2. Fallback: Client Side Proxy + backend simulation (Offline Mode)
   console.log("Using Fallback Mode");
   const bvid = extractBvid(url);
   if (!bvid) throw new Error("Invalid URL");
+  const page = extractPage(url);
 
   let metaInfo;
+  onProgress?.({ stage: 'metadata', message: "Fetching metadata (offline mode)..." });
   try {
       metaInfo = await fetchBilibiliVideoInfo(bvid);
   } catch (e) {
@@ -108,13 +370,31 @@ export const analyzeVideo = async (url: string): Promise<AnalyzeResult> => {
       };
   }
 
-  const aiContent = await generateVideoContent(
-    metaInfo.title || "Unknown", 
-    metaInfo.description || "", 
-    metaInfo.duration || 600,
-    (metaInfo as any).category || "General",
-    metaInfo.author || "Unknown"
-  );
+  const part = metaInfo.pages?.find(p => p.page === page);
+  const duration = part?.duration || metaInfo.duration || 600;
+
+  if (signal?.aborted) throw cancelledError();
+  onProgress?.({ stage: 'highlights', message: "Simulating transcript and highlights..." });
+  // The LLM lives behind the backend, so this still needs it for simulation
+  let aiContent: GeneratedContent;
+  try {
+    aiContent = await generateHighlights({
+      platform: 'bilibili',
+      bvid,
+      page,
+      title: part && metaInfo.pages!.length > 1 ? `${metaInfo.title} - ${part.part}` : metaInfo.title || "Unknown",
+      description: metaInfo.description || "",
+      duration,
+      category: metaInfo.category || "General",
+      author: metaInfo.author || "Unknown"
+    });
+  } catch (err) {
+    // fetch rejects with a TypeError when the server can't be reached at all
+    if (err instanceof TypeError) throw new Error("Could not reach the analysis server. Please make sure the backend is running.");
+    throw err;
+  }
+
+  if (signal?.aborted) throw cancelledError();
 
   return {
     data: {
@@ -122,13 +402,46 @@ export const analyzeVideo = async (url: string): Promise<AnalyzeResult> => {
         bvid: metaInfo.bvid!,
         title: metaInfo.title || "Untitled",
         author: metaInfo.author || "Unknown",
-        category: (metaInfo as any).category,
-        duration: metaInfo.duration || 600,
+        category: metaInfo.category,
+        duration,
         thumbnail: metaInfo.thumbnail || "",
+        page: part ? page : 1,
+        pages: metaInfo.pages,
         highlights: aiContent.highlights,
-        transcript: aiContent.transcript,
-        isTranscriptSimulated: true
+        transcript: aiContent.transcript || [],
+        suggestedQuestions: aiContent.suggestedQuestions || [],
+        isTranscriptSimulated: true,
+        subtitleSource: 'none'
     },
     source: 'ai-simulated'
   };
+};
+
+interface ImportedSubtitles {
+  format: string;
+  transcript: TranscriptSegment[];
+  subtitleSource: SubtitleSource;
+}
+
+/**
+ * Sends a local subtitle file to the backend for parsing.
+ * Unlike analysis there is no client-side fallback, since the parsers live on the server.
+ */
+export const importSubtitles = async (video: VideoData, file: File): Promise<ImportedSubtitles> => {
+  const content = await file.text();
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/subtitles`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ platform: video.platform, id: getCacheId(video), filename: file.name, content }),
+    });
+  } catch {
+    throw new Error("Subtitle import needs the backend server to be running.");
+  }
+
+  const json = await response.json();
+  if (!response.ok) throw new Error(json.error || "Failed to import subtitles");
+  return json;
 };
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { VideoData } from '../types';
+import { VideoData, VideoPage } from '../types';
 
 interface BilibiliApiResponse {
   code: number;
@@ -8,9 +8,11 @@ interface BilibiliApiResponse {
     desc: string;
     pic: string;
     duration: number; // seconds
+    tname: string;
     owner: {
       name: string;
     };
+    pages?: VideoPage[];
   };
 }
 
@@ -20,6 +22,12 @@ export const extractBvid = (inputUrl: string): string | null => {
   return match ? match[1] : null;
 };
 
+// Part number from a `?p=N` query (1-based, defaults to the first part)
+export const extractPage = (inputUrl: string): number => {
+  const match = inputUrl.match(/[?&]p=(\d+)/);
+  return match ? Math.max(1, parseInt(match[1], 10)) : 1;
+};
+
 // Fallback: Fetch metadata using a public CORS proxy (allorigins)
 // This is used when the local backend server is not running
 export const fetchBilibiliVideoInfo = async (bvid: string): Promise<Partial<VideoData> & { description: string }> => {
@@ -43,6 +51,8 @@ export const fetchBilibiliVideoInfo = async (bvid: string): Promise<Partial<Vide
       duration: data.duration,
       thumbnail: data.pic,
       description: data.desc,
+      category: data.tname,
+      pages: (data.pages || []).map(({ cid, page, part, duration }) => ({ cid, page, part, duration })),
     };
   } catch (error) {
     console.error("Failed to fetch Bilibili metadata via proxy", error);
@@ -0,0 +1,39 @@
+import { ChatMessage, ChatSession, VideoData } from '../types';
+import { STORES, withStore } from './db';
+
+type VideoKey = Pick<VideoData, 'platform' | 'bvid' | 'page'>;
+
+const sessionKey = (video: VideoKey) => `${video.platform}:${video.bvid}:${video.page ?? 1}`;
+
+export const loadChat = async (video: VideoKey): Promise<ChatMessage[]> => {
+  const session = await withStore<ChatSession | undefined>(STORES.CHATS, 'readonly', store =>
+    store.get(sessionKey(video))
+  );
+  return session?.messages ?? [];
+};
+
+export const saveChat = (video: VideoKey, messages: ChatMessage[]): Promise<IDBValidKey> =>
+  withStore(STORES.CHATS, 'readwrite', store => store.put({
+    key: sessionKey(video),
+    platform: video.platform,
+    bvid: video.bvid,
+    page: video.page,
+    messages,
+    updatedAt: Date.now(),
+  } as ChatSession));
+
+export const clearChat = (video: VideoKey): Promise<undefined> =>
+  withStore(STORES.CHATS, 'readwrite', store => store.delete(sessionKey(video)));
+
+/** A readable transcript of the conversation, for the Export button. */
+export const chatToMarkdown = (video: Pick<VideoData, 'title'>, messages: ChatMessage[]): string => {
+  const lines = [`# Chat: ${video.title}`];
+  messages
+    .filter(m => m.status !== 'error')
+    .forEach(m => {
+      const when = new Date(m.timestamp).toLocaleString();
+      const text = m.status === 'stopped' ? `${m.text.trim()}\n\n_(stopped)_` : m.text.trim();
+      lines.push('', `## ${m.role === 'user' ? 'You' : 'Assistant'} · ${when}`, '', text);
+    });
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,86 @@
+/**
+ * Local IndexedDB storage shared by every persisted feature.
+ * Bump DB_VERSION and add a step to `upgrade` when a store or index changes.
+ */
+
+const DB_NAME = 'bilicut';
+const DB_VERSION = 6;
+
+export const STORES = {
+  NOTES: 'notes',
+  CHATS: 'chats',
+  CARDS: 'cards',
+  LIBRARY: 'library',
+  HIGHLIGHT_EDITS: 'highlightEdits',
+  TRANSCRIPT_CORRECTIONS: 'transcriptCorrections',
+  GLOSSARY: 'glossary',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const notes = db.createObjectStore(STORES.NOTES, { keyPath: 'id' });
+    notes.createIndex('video', ['platform', 'bvid']);
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.CHATS, { keyPath: 'key' });
+  }
+  if (oldVersion < 3) {
+    const cards = db.createObjectStore(STORES.CARDS, { keyPath: 'id' });
+    cards.createIndex('video', ['platform', 'bvid']);
+    cards.createIndex('dueAt', 'dueAt');
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.LIBRARY, { keyPath: 'key' });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.HIGHLIGHT_EDITS, { keyPath: 'key' });
+  }
+  if (oldVersion < 6) {
+    db.createObjectStore(STORES.TRANSCRIPT_CORRECTIONS, { keyPath: 'key' });
+    db.createObjectStore(STORES.GLOSSARY, { keyPath: 'term' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (e) => upgrade(request.result, e.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Runs `fn` against one object store and resolves with its result once the transaction commits. */
+export const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | Promise<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(store, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = fn(tx.objectStore(store));
+  const value = result instanceof IDBRequest ? await promisify(result) : await result;
+  await done;
+  return value;
+};
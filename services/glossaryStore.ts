@@ -0,0 +1,18 @@
+import { GlossaryTerm } from '../types';
+import { STORES, withStore } from './db';
+
+/**
+ * The user's glossary: names and technical terms sent along with every
+ * analysis so AI transcription spells them correctly. Shared by all videos.
+ */
+
+export const listGlossary = async (): Promise<string[]> => {
+  const terms = await withStore<GlossaryTerm[]>(STORES.GLOSSARY, 'readonly', store => store.getAll());
+  return terms.sort((a, b) => a.addedAt - b.addedAt).map(t => t.term);
+};
+
+export const addGlossaryTerm = (term: string): Promise<IDBValidKey> =>
+  withStore(STORES.GLOSSARY, 'readwrite', store => store.put({ term: term.trim(), addedAt: Date.now() } as GlossaryTerm));
+
+export const deleteGlossaryTerm = (term: string): Promise<undefined> =>
+  withStore(STORES.GLOSSARY, 'readwrite', store => store.delete(term));
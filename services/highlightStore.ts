@@ -0,0 +1,18 @@
+import { HighlightEdit, HighlightOverlay, VideoData } from '../types';
+import { STORES, withStore } from './db';
+
+type VideoKey = Pick<VideoData, 'platform' | 'bvid' | 'page'>;
+
+const overlayKey = (video: VideoKey) => `${video.platform}:${video.bvid}:${video.page ?? 1}`;
+
+export const loadHighlightEdits = async (video: VideoKey): Promise<HighlightEdit[]> => {
+  const overlay = await withStore<HighlightOverlay | undefined>(STORES.HIGHLIGHT_EDITS, 'readonly', store =>
+    store.get(overlayKey(video))
+  );
+  return overlay?.edits ?? [];
+};
+
+export const saveHighlightEdits = (video: VideoKey, edits: HighlightEdit[]): Promise<IDBValidKey | undefined> =>
+  withStore(STORES.HIGHLIGHT_EDITS, 'readwrite', store => edits.length > 0
+    ? store.put({ key: overlayKey(video), edits, updatedAt: Date.now() } as HighlightOverlay)
+    : store.delete(overlayKey(video)));
@@ -0,0 +1,78 @@
+import { LibraryEntry, VideoData } from '../types';
+import { STORES, promisify, withStore } from './db';
+
+/**
+ * Version of the `video` shape stored in library entries. Bump it when
+ * VideoData changes incompatibly and add a step to `migrate`.
+ */
+export const LIBRARY_SCHEMA_VERSION = 1;
+
+type VideoKey = Pick<VideoData, 'platform' | 'bvid' | 'page'>;
+
+export const libraryKey = (video: VideoKey) => `${video.platform}:${video.bvid}:${video.page ?? 1}`;
+
+// Entries are upgraded when read, so old ones never need a bulk rewrite
+const migrate = (entry: LibraryEntry): LibraryEntry | null => {
+  // Written by a newer version of the app; its shape is unknown here
+  if (entry.schemaVersion > LIBRARY_SCHEMA_VERSION) return null;
+  return { ...entry, tags: entry.tags ?? [], schemaVersion: LIBRARY_SCHEMA_VERSION };
+};
+
+export type TranscriptSourceKind = 'official' | 'asr' | 'ai_transcription' | 'imported' | 'simulated' | 'none';
+
+export const TRANSCRIPT_SOURCE_LABELS: Record<TranscriptSourceKind, string> = {
+  official: 'Official subtitles',
+  asr: 'Auto-generated subtitles',
+  ai_transcription: 'AI transcribed',
+  imported: 'Imported',
+  simulated: 'Simulated',
+  none: 'No transcript',
+};
+
+export const transcriptSourceOf = (video: VideoData): TranscriptSourceKind => {
+  if (video.isTranscriptSimulated) return 'simulated';
+  if (video.isAiTranscribed) return 'ai_transcription';
+  return video.subtitleSource ?? 'none';
+};
+
+/** Every saved video, most recently opened first. */
+export const listLibrary = async (): Promise<LibraryEntry[]> => {
+  const entries = await withStore<LibraryEntry[]>(STORES.LIBRARY, 'readonly', store => store.getAll());
+  return entries
+    .map(migrate)
+    .filter((e): e is LibraryEntry => e !== null)
+    .sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+};
+
+/**
+ * Saves the current state of a video, keeping its tags. `opened` marks it as
+ * just opened (a fresh analysis or a reopen) rather than edited in place.
+ */
+export const saveLibraryVideo = (
+  video: VideoData,
+  { source, opened }: { source: LibraryEntry['source']; opened: boolean }
+): Promise<LibraryEntry> =>
+  withStore(STORES.LIBRARY, 'readwrite', async store => {
+    const key = libraryKey(video);
+    const now = Date.now();
+    const stored = await promisify<LibraryEntry | undefined>(store.get(key));
+    const existing = stored && migrate(stored);
+    const entry: LibraryEntry = {
+      key,
+      schemaVersion: LIBRARY_SCHEMA_VERSION,
+      video,
+      source,
+      tags: existing?.tags ?? [],
+      addedAt: existing?.addedAt ?? now,
+      lastOpenedAt: opened || !existing ? now : existing.lastOpenedAt,
+    };
+    store.put(entry);
+    return entry;
+  });
+
+export const setLibraryTags = (entry: LibraryEntry, tags: string[]): Promise<IDBValidKey> =>
+  withStore(STORES.LIBRARY, 'readwrite', store => store.put({ ...entry, tags }));
+
+/** Removes a video from the library. Its notes, chat and study cards are kept. */
+export const deleteLibraryEntry = (key: string): Promise<undefined> =>
+  withStore(STORES.LIBRARY, 'readwrite', store => store.delete(key));
@@ -0,0 +1,18 @@
+import { Note, VideoData } from '../types';
+import { STORES, withStore } from './db';
+
+export const listNotes = async (platform: VideoData['platform'], bvid: string, page = 1): Promise<Note[]> => {
+  const notes = await withStore<Note[]>(STORES.NOTES, 'readonly', store =>
+    store.index('video').getAll([platform, bvid])
+  );
+  // Notes saved before multi-part support have no page and belong to part 1
+  return notes
+    .filter(n => (n.page ?? 1) === page)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const saveNote = (note: Note): Promise<IDBValidKey> =>
+  withStore(STORES.NOTES, 'readwrite', store => store.put(note));
+
+export const deleteNote = (id: string): Promise<undefined> =>
+  withStore(STORES.NOTES, 'readwrite', store => store.delete(id));
@@ -0,0 +1,248 @@
+/**
+ * Player adapters.
+ *
+ * Wraps the YouTube IFrame API and the Bilibili embed player's postMessage
+ * interface behind one interface, so the rest of the app can seek and follow
+ * playback without reloading the iframe.
+ */
+
+export interface PlayerAdapter {
+  seek: (time: number) => void;
+  play: () => void;
+  pause: () => void;
+  /** Subscribes to playback position updates. Returns an unsubscribe function. */
+  onTimeUpdate: (listener: (time: number) => void) => () => void;
+  destroy: () => void;
+}
+
+type TimeListener = (time: number) => void;
+
+const POLL_INTERVAL_MS = 250;
+
+const createListenerSet = () => {
+  const listeners = new Set<TimeListener>();
+  return {
+    add: (listener: TimeListener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    emit: (time: number) => listeners.forEach(l => l(time)),
+    clear: () => listeners.clear(),
+  };
+};
+
+// ------------------------------------------------------------------
+// YouTube (IFrame API)
+// ------------------------------------------------------------------
+
+// Minimal typings for the parts of the IFrame API we use
+interface YTPlayer {
+  seekTo: (seconds: number, allowSeekAhead: boolean) => void;
+  playVideo: () => void;
+  pauseVideo: () => void;
+  getCurrentTime: () => number;
+  destroy: () => void;
+}
+
+interface YTNamespace {
+  Player: new (el: HTMLIFrameElement, options: { events: Record<string, (e: any) => void> }) => YTPlayer;
+  PlayerState: { PLAYING: number };
+}
+
+declare global {
+  interface Window {
+    YT?: YTNamespace;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+let youtubeApiPromise: Promise<YTNamespace> | null = null;
+
+const loadYoutubeApi = (): Promise<YTNamespace> => {
+  if (window.YT?.Player) return Promise.resolve(window.YT);
+  if (youtubeApiPromise) return youtubeApiPromise;
+
+  youtubeApiPromise = new Promise((resolve, reject) => {
+    const previous = window.onYouTubeIframeAPIReady;
+    window.onYouTubeIframeAPIReady = () => {
+      previous?.();
+      resolve(window.YT!);
+    };
+    const script = document.createElement('script');
+    script.src = 'https://www.youtube.com/iframe_api';
+    script.onerror = () => {
+      youtubeApiPromise = null;
+      reject(new Error('Failed to load YouTube IFrame API'));
+    };
+    document.head.appendChild(script);
+  });
+  return youtubeApiPromise;
+};
+
+/**
+ * The iframe must be loaded with `enablejsapi=1` for the API to attach.
+ * Commands issued before the player is ready are replayed once it is.
+ */
+export const createYoutubePlayer = (iframe: HTMLIFrameElement): PlayerAdapter => {
+  const listeners = createListenerSet();
+  let player: YTPlayer | null = null;
+  let pending: Array<(p: YTPlayer) => void> = [];
+  let pollTimer: number | undefined;
+  let destroyed = false;
+
+  const run = (command: (p: YTPlayer) => void) => {
+    if (player) command(player);
+    else pending.push(command);
+  };
+
+  const startPolling = () => {
+    stopPolling();
+    pollTimer = window.setInterval(() => {
+      if (player) listeners.emit(player.getCurrentTime());
+    }, POLL_INTERVAL_MS);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer !== undefined) window.clearInterval(pollTimer);
+    pollTimer = undefined;
+  };
+
+  loadYoutubeApi()
+    .then((YT) => {
+      if (destroyed) return;
+      new YT.Player(iframe, {
+        events: {
+          onReady: (e) => {
+            if (destroyed) return;
+            player = e.target as YTPlayer;
+            pending.forEach(command => command(player!));
+            pending = [];
+            listeners.emit(player.getCurrentTime());
+          },
+          onStateChange: (e) => {
+            if (!player) return;
+            if (e.data === YT.PlayerState.PLAYING) startPolling();
+            else stopPolling();
+            // Report the final position on pause/end/buffer
+            listeners.emit(player.getCurrentTime());
+          },
+        },
+      });
+    })
+    .catch((err) => console.warn('YouTube player control unavailable.', err));
+
+  return {
+    seek: (time) => run(p => {
+      p.seekTo(time, true);
+      listeners.emit(time);
+    }),
+    play: () => run(p => p.playVideo()),
+    pause: () => run(p => p.pauseVideo()),
+    onTimeUpdate: listeners.add,
+    destroy: () => {
+      destroyed = true;
+      stopPolling();
+      listeners.clear();
+      pending = [];
+      // The iframe is owned by React, so we detach instead of calling player.destroy()
+      player = null;
+    },
+  };
+};
+
+// ------------------------------------------------------------------
+// Bilibili (postMessage)
+// ------------------------------------------------------------------
+
+const BILIBILI_ORIGIN = /^https?:\/\/([a-z0-9-]+\.)*bilibili\.com$/;
+
+// The embed player reports its position in a few different payload shapes
+// depending on the player version; pick out whichever one is present.
+const readReportedTime = (payload: any): number | null => {
+  if (!payload || typeof payload !== 'object') return null;
+  const candidates = [payload.currentTime, payload.data?.currentTime, payload.value?.currentTime];
+  const time = candidates.find(c => typeof c === 'number' && Number.isFinite(c));
+  return time ?? null;
+};
+
+const parseMessage = (raw: unknown): any => {
+  if (typeof raw !== 'string') return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Talks to player.bilibili.com through postMessage. Older embeds never answer,
+ * so until the player has reported a position we keep a local playback clock.
+ * Seeking only ever posts a message: the iframe is never reloaded, so an
+ * embed that ignores postMessage keeps playing where it is while the clock
+ * (and with it the transcript and chapters) jumps to the requested time.
+ */
+export const createBilibiliPlayer = (iframe: HTMLIFrameElement): PlayerAdapter => {
+  const listeners = createListenerSet();
+  let isResponsive = false;
+  let clockTimer: number | undefined;
+  let clockBase = 0;
+  let clockStartedAt = 0;
+
+  const post = (type: string, data?: Record<string, unknown>) => {
+    iframe.contentWindow?.postMessage(JSON.stringify({ type, data }), '*');
+  };
+
+  const clockTime = () => clockBase + (Date.now() - clockStartedAt) / 1000;
+
+  const startClock = (from: number) => {
+    stopClock();
+    clockBase = from;
+    clockStartedAt = Date.now();
+    clockTimer = window.setInterval(() => {
+      if (!isResponsive) listeners.emit(clockTime());
+    }, POLL_INTERVAL_MS);
+  };
+
+  const stopClock = () => {
+    if (clockTimer !== undefined) {
+      clockBase = clockTime();
+      window.clearInterval(clockTimer);
+    }
+    clockTimer = undefined;
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.source !== iframe.contentWindow || !BILIBILI_ORIGIN.test(event.origin)) return;
+    const time = readReportedTime(parseMessage(event.data));
+    if (time === null) return;
+    isResponsive = true;
+    stopClock();
+    listeners.emit(time);
+  };
+
+  window.addEventListener('message', handleMessage);
+  // The embed autoplays, so start the estimate right away
+  startClock(0);
+
+  return {
+    seek: (time) => {
+      post('seek', { time });
+      if (!isResponsive) startClock(time);
+      listeners.emit(time);
+    },
+    play: () => {
+      post('play');
+      if (!isResponsive && clockTimer === undefined) startClock(clockBase);
+    },
+    pause: () => {
+      post('pause');
+      if (!isResponsive) stopClock();
+    },
+    onTimeUpdate: listeners.add,
+    destroy: () => {
+      window.removeEventListener('message', handleMessage);
+      stopClock();
+      listeners.clear();
+    },
+  };
+};
@@ -0,0 +1,27 @@
+import { StudyCard, VideoData } from '../types';
+import { STORES, withStore } from './db';
+
+export const listCards = async (platform: VideoData['platform'], bvid: string, page = 1): Promise<StudyCard[]> => {
+  const cards = await withStore<StudyCard[]>(STORES.CARDS, 'readonly', store =>
+    store.index('video').getAll([platform, bvid])
+  );
+  return cards
+    .filter(c => (c.page ?? 1) === page)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const saveCard = (card: StudyCard): Promise<IDBValidKey> =>
+  withStore(STORES.CARDS, 'readwrite', store => store.put(card));
+
+/** Replaces every card of a video (and part) with `cards`, e.g. after regenerating. */
+export const replaceCards = async (video: Pick<VideoData, 'platform' | 'bvid' | 'page'>, cards: StudyCard[]) => {
+  const existing = await listCards(video.platform, video.bvid, video.page);
+  await withStore(STORES.CARDS, 'readwrite', async store => {
+    existing.forEach(card => store.delete(card.id));
+    cards.forEach(card => store.put(card));
+  });
+};
+
+/** Cards due by `now` across every video, for the "due elsewhere" hint. */
+export const countDueCards = (now = Date.now()): Promise<number> =>
+  withStore(STORES.CARDS, 'readonly', store => store.index('dueAt').count(IDBKeyRange.upperBound(now)));
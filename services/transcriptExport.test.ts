@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSegment, VideoData } from '../types';
+import { toMarkdown, toSrt, toWebVtt, withEndTimes } from './transcriptExport';
+
+const segment = (startTime: number, text: string): TranscriptSegment => ({
+  id: `s${startTime}`,
+  text,
+  timestamp: '',
+  startTime,
+});
+
+const video = (overrides: Partial<VideoData> = {}): VideoData => ({
+  platform: 'bilibili',
+  bvid: 'BV1xx411c7mD',
+  title: 'Sample',
+  author: 'Someone',
+  duration: 120,
+  thumbnail: '',
+  highlights: [],
+  transcript: [],
+  ...overrides,
+});
+
+describe('withEndTimes', () => {
+  it('ends each segment where the next one starts, sorting by start time', () => {
+    const timed = withEndTimes([segment(10, 'b'), segment(0, 'a')], 30);
+    expect(timed.map(s => [s.startTime, s.endTime])).toEqual([[0, 10], [10, 30]]);
+  });
+
+  it('ends the last segment with the video', () => {
+    expect(withEndTimes([segment(0, 'a'), segment(90, 'b')], 120)[1].endTime).toBe(120);
+  });
+
+  it('falls back to a fixed length when the last segment starts at or after the duration', () => {
+    expect(withEndTimes([segment(120, 'a')], 120)[0].endTime).toBe(125);
+    expect(withEndTimes([segment(130, 'a')], 0)[0].endTime).toBe(135);
+  });
+
+  it('returns nothing for an empty transcript', () => {
+    expect(withEndTimes([], 120)).toEqual([]);
+  });
+});
+
+describe('toSrt', () => {
+  it('numbers cues and formats times with hours and a comma', () => {
+    expect(toSrt([segment(0, 'Hello'), segment(3725.5, 'World')], 3730)).toBe(
+      '1\n00:00:00,000 --> 01:02:05,500\nHello\n\n' +
+      '2\n01:02:05,500 --> 01:02:10,000\nWorld\n'
+    );
+  });
+
+  it('rounds to the nearest millisecond', () => {
+    expect(toSrt([segment(1.0004, 'a'), segment(2.9996, 'b')], 4)).toContain(
+      '00:00:01,000 --> 00:00:03,000'
+    );
+    expect(toSrt([segment(59.9995, 'a')], 61)).toContain('00:01:00,000 --> 00:01:01,000');
+  });
+
+  it('collapses blank lines inside a cue', () => {
+    expect(toSrt([segment(0, 'one\n\ntwo')], 5)).toContain('\none\ntwo\n');
+  });
+
+  it('renders an empty transcript as an empty file', () => {
+    expect(toSrt([], 60)).toBe('\n');
+  });
+});
+
+describe('toWebVtt', () => {
+  it('adds the header and formats times with a dot', () => {
+    expect(toWebVtt([segment(3600, 'Hi')], 3602.25)).toBe(
+      'WEBVTT\n\n01:00:00.000 --> 01:00:02.250\nHi\n'
+    );
+  });
+
+  it('escapes arrows in cue text', () => {
+    expect(toWebVtt([segment(0, 'a --> b')], 5)).toContain('\na -> b\n');
+  });
+
+  it('keeps only the header for an empty transcript', () => {
+    expect(toWebVtt([], 60)).toBe('WEBVTT\n');
+  });
+});
+
+describe('toMarkdown', () => {
+  it('groups passages under their chapter and puts earlier text under Intro', () => {
+    const md = toMarkdown(video({
+      highlights: [{ id: 'h1', title: 'Main', startTime: 10, endTime: 60, color: '#fff', description: 'Gist' }],
+      transcript: [segment(0, 'Welcome'), segment(15, 'Point')],
+    }));
+    expect(md).toContain('## Intro\n\n**[0:00]** Welcome\n');
+    expect(md).toContain('## [0:10–1:00] Main\n\n> Gist\n\n**[0:15]** Point\n');
+    expect(md).toContain('- Source: https://www.bilibili.com/video/BV1xx411c7mD\n');
+  });
+
+  it('writes a bare Transcript section for an empty video', () => {
+    expect(toMarkdown(video())).toMatch(/## Transcript\n$/);
+  });
+});
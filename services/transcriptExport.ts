@@ -0,0 +1,131 @@
+import { Highlight, TranscriptSegment, VideoData } from '../types';
+import { findActiveIndex, formatTime } from '../utils/time';
+
+export type ExportFormat = 'srt' | 'vtt' | 'md' | 'json';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; mimeType: string }[] = [
+  { format: 'srt', label: 'SubRip (.srt)', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT (.vtt)', mimeType: 'text/vtt' },
+  { format: 'md', label: 'Study notes (.md)', mimeType: 'text/markdown' },
+  { format: 'json', label: 'Raw data (.json)', mimeType: 'application/json' },
+];
+
+// Used when the last segment starts at or after the reported duration
+const FALLBACK_SEGMENT_SECONDS = 5;
+
+export interface TimedSegment extends TranscriptSegment {
+  endTime: number;
+}
+
+/**
+ * Segments only carry a start time; each one ends where the next begins,
+ * and the last one ends with the video.
+ */
+export const withEndTimes = (transcript: TranscriptSegment[], duration: number): TimedSegment[] => {
+  const sorted = [...transcript].sort((a, b) => a.startTime - b.startTime);
+  return sorted.map((segment, index) => {
+    const next = sorted[index + 1];
+    let endTime = next ? next.startTime : duration;
+    if (endTime <= segment.startTime) endTime = segment.startTime + FALLBACK_SEGMENT_SECONDS;
+    return { ...segment, endTime };
+  });
+};
+
+/** Formats seconds as `HH:MM:SS<sep>mmm`. */
+const formatCueTime = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+};
+
+// Blank lines end a cue in both SRT and WebVTT
+const cueText = (text: string) => text.replace(/\r?\n\s*\n/g, '\n').trim();
+
+export const toSrt = (transcript: TranscriptSegment[], duration: number): string =>
+  withEndTimes(transcript, duration)
+    .map((cue, index) => [
+      index + 1,
+      `${formatCueTime(cue.startTime, ',')} --> ${formatCueTime(cue.endTime, ',')}`,
+      cueText(cue.text),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+
+export const toWebVtt = (transcript: TranscriptSegment[], duration: number): string => {
+  const cues = withEndTimes(transcript, duration).map(cue => [
+    `${formatCueTime(cue.startTime, '.')} --> ${formatCueTime(cue.endTime, '.')}`,
+    // "-->" is not allowed inside cue payloads
+    cueText(cue.text).replace(/-->/g, '->'),
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+export const getVideoUrl = (video: Pick<VideoData, 'platform' | 'bvid' | 'page'>) =>
+  video.platform === 'youtube'
+    ? `https://www.youtube.com/watch?v=${video.bvid}`
+    : `https://www.bilibili.com/video/${video.bvid}${video.page && video.page > 1 ? `?p=${video.page}` : ''}`;
+
+/**
+ * A study document: one section per highlight chapter, with the transcript
+ * passages that fall inside it. Text before the first chapter goes under "Intro".
+ */
+export const toMarkdown = (video: VideoData): string => {
+  const chapters: Highlight[] = [...video.highlights].sort((a, b) => a.startTime - b.startTime);
+  const sections: { chapter: Highlight | null; segments: TranscriptSegment[] }[] =
+    chapters.map(chapter => ({ chapter, segments: [] }));
+  const intro: TranscriptSegment[] = [];
+
+  [...video.transcript]
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach(segment => {
+      const index = findActiveIndex(chapters, segment.startTime);
+      if (index < 0) intro.push(segment);
+      else sections[index].segments.push(segment);
+    });
+  if (intro.length > 0 || chapters.length === 0) sections.unshift({ chapter: null, segments: intro });
+
+  const lines = [
+    `# ${video.title}`,
+    '',
+    `- Author: ${video.author}`,
+    ...(video.category ? [`- Category: ${video.category}`] : []),
+    `- Duration: ${formatTime(video.duration)}`,
+    `- Source: ${getVideoUrl(video)}`,
+  ];
+
+  if (chapters.length > 0) {
+    lines.push('', '## Chapters', '');
+    chapters.forEach(c => lines.push(`- [${formatTime(c.startTime)}] ${c.title}`));
+  }
+
+  sections.forEach(({ chapter, segments }) => {
+    lines.push('');
+    if (chapter) {
+      lines.push(`## [${formatTime(chapter.startTime)}–${formatTime(chapter.endTime)}] ${chapter.title}`);
+      if (chapter.description) lines.push('', `> ${chapter.description}`);
+    } else {
+      lines.push(chapters.length > 0 ? '## Intro' : '## Transcript');
+    }
+    if (segments.length > 0) {
+      lines.push('');
+      segments.forEach(s => lines.push(`**[${formatTime(s.startTime)}]** ${s.text.trim()}`, ''));
+      lines.pop();
+    }
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+export const toJson = (video: VideoData): string => JSON.stringify(video, null, 2);
+
+export const serializeTranscript = (video: VideoData, format: ExportFormat): string => {
+  switch (format) {
+    case 'srt': return toSrt(video.transcript, video.duration);
+    case 'vtt': return toWebVtt(video.transcript, video.duration);
+    case 'md': return toMarkdown(video);
+    case 'json': return toJson(video);
+  }
+};
@@ -0,0 +1,44 @@
+import { TranscriptCorrection, TranscriptSegment, VideoData } from '../types';
+import { STORES, withStore } from './db';
+
+type VideoKey = Pick<VideoData, 'platform' | 'bvid' | 'page'>;
+
+const correctionKey = (video: VideoKey) => `${video.platform}:${video.bvid}:${video.page ?? 1}`;
+
+/** Whether `correction` was made from the transcript `video` currently shows. */
+export const correctionApplies = (correction: TranscriptCorrection, video: Pick<VideoData, 'subtitleSource' | 'activeTrackId'>) =>
+  correction.source === video.subtitleSource && correction.trackId === video.activeTrackId;
+
+export const loadTranscriptCorrection = (video: VideoKey): Promise<TranscriptCorrection | undefined> =>
+  withStore(STORES.TRANSCRIPT_CORRECTIONS, 'readonly', store => store.get(correctionKey(video)));
+
+/** `transcript` as the corrected copy of the transcript `video` currently shows. */
+export const createCorrection = (
+  video: VideoKey & Pick<VideoData, 'subtitleSource' | 'activeTrackId'>,
+  transcript: TranscriptSegment[]
+): TranscriptCorrection => ({
+  key: correctionKey(video),
+  source: video.subtitleSource,
+  trackId: video.activeTrackId,
+  transcript,
+  updatedAt: Date.now(),
+});
+
+// One correction per video: correcting another track replaces it
+export const saveTranscriptCorrection = (correction: TranscriptCorrection): Promise<IDBValidKey> =>
+  withStore(STORES.TRANSCRIPT_CORRECTIONS, 'readwrite', store => store.put(correction));
+
+export const deleteTranscriptCorrection = (video: VideoKey): Promise<undefined> =>
+  withStore(STORES.TRANSCRIPT_CORRECTIONS, 'readwrite', store => store.delete(correctionKey(video)));
+
+/** Every stored correction, by video. */
+export const listTranscriptCorrections = async (): Promise<Map<string, TranscriptCorrection>> => {
+  const corrections = await withStore<TranscriptCorrection[]>(STORES.TRANSCRIPT_CORRECTIONS, 'readonly', store => store.getAll());
+  return new Map(corrections.map(c => [c.key, c]));
+};
+
+/** The transcript `video` shows: its correction when one applies, otherwise the original. */
+export const correctedTranscriptOf = (video: VideoData, corrections: Map<string, TranscriptCorrection>): TranscriptSegment[] => {
+  const correction = corrections.get(correctionKey(video));
+  return correction && correctionApplies(correction, video) ? correction.transcript : video.transcript;
+};
@@ -1,7 +1,8 @@
 export enum TabOption {
   TRANSCRIPT = 'Transcript',
   CHAT = 'Chat',
-  NOTES = 'Notes'
+  NOTES = 'Notes',
+  STUDY = 'Study'
 }
 
 export interface Highlight {
@@ -13,6 +14,21 @@ export interface Highlight {
   description?: string;
 }
 
+// One manual change to a video's chapters, stored on top of the generated highlights
+export interface HighlightEdit {
+  id: string; // Highlight id
+  // The generated highlight this edit replaces, as it was when edited; absent for user-created chapters.
+  // If a re-analysis changes or drops it, the edited chapter is kept as a user chapter.
+  base?: Pick<Highlight, 'title' | 'startTime' | 'endTime'>;
+  highlight: Highlight | null; // null when deleted
+}
+
+export interface HighlightOverlay {
+  key: string; // platform:bvid:page
+  edits: HighlightEdit[];
+  updatedAt: number;
+}
+
 export interface TranscriptSegment {
   id: string;
   text: string;
@@ -20,6 +36,25 @@ export interface TranscriptSegment {
   startTime: number;
 }
 
+// One part (分P) of a multi-part Bilibili video
+export interface VideoPage {
+  cid: number;
+  page: number; // 1-based
+  part: string; // Part title
+  duration: number; // in seconds
+}
+
+export interface SubtitleTrack {
+  id: string;
+  lang: string; // BCP 47-ish language code, e.g. "zh-CN", "en"
+  label: string; // Human-readable name from the platform
+  isAi: boolean; // Auto-generated or machine-translated
+  transcript: TranscriptSegment[];
+}
+
+// 'asr': the platform's auto-generated track (speech recognition or machine translation)
+export type SubtitleSource = 'official' | 'asr' | 'ai_transcription' | 'imported' | 'none';
+
 export interface VideoData {
   platform: 'bilibili' | 'youtube'; // New: Support multiple platforms
   bvid: string; // For YouTube, this will store the Video ID
@@ -28,10 +63,49 @@ export interface VideoData {
   category?: string;
   duration: number; // in seconds
   thumbnail: string;
+  page?: number; // Bilibili part being viewed (1-based)
+  pages?: VideoPage[]; // All parts of a multi-part Bilibili video
   highlights: Highlight[];
   transcript: TranscriptSegment[];
+  subtitleTracks?: SubtitleTrack[]; // Every platform subtitle track, when there are any
+  activeTrackId?: string; // Track currently shown as `transcript`
   isTranscriptSimulated?: boolean;
   isAiTranscribed?: boolean;
+  subtitleSource?: SubtitleSource;
+  suggestedQuestions?: string[]; // Generated chat starters for this video
+  summary?: VideoSummary | null; // Generated on request; null until then
+  isTranscriptCorrected?: boolean; // `transcript` is the user's corrected copy
+}
+
+export interface KeyTerm {
+  term: string;
+  definition: string;
+  firstMention: number; // in seconds
+}
+
+export interface ChapterSummary {
+  chapterId: string; // Highlight id
+  summary: string;
+  // The chapter as summarized, so the section survives chapter edits (absent in older summaries)
+  title?: string;
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface VideoSummary {
+  tldr: string;
+  chapters: ChapterSummary[];
+  keyTerms: KeyTerm[];
+  transcriptFingerprint?: string; // Of the transcript it was generated from (utils/summaryAnchors.ts)
+}
+
+export type AnalysisStage = 'connecting' | 'metadata' | 'subtitles' | 'download' | 'transcription' | 'highlights';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  message: string;
+  current?: number; // Bytes downloaded or chunks transcribed
+  total?: number;
 }
 
 export interface ChatMessage {
@@ -39,4 +113,82 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
-}
\ No newline at end of file
+  // Model replies only: still arriving, cut short by the user, or failed (`error` says why)
+  status?: 'streaming' | 'stopped' | 'error';
+  error?: string;
+}
+
+// One conversation per video (and Bilibili part), persisted in IndexedDB
+export interface ChatSession {
+  key: string;
+  platform: 'bilibili' | 'youtube';
+  bvid: string;
+  page?: number;
+  messages: ChatMessage[];
+  updatedAt: number;
+}
+
+// A transcript the user corrected, shown instead of the one it was made from.
+// It only applies while the video shows that same transcript (source and track).
+export interface TranscriptCorrection {
+  key: string; // platform:bvid:page
+  source?: SubtitleSource;
+  trackId?: string;
+  transcript: TranscriptSegment[];
+  updatedAt: number;
+}
+
+// A name or term the user wants AI transcription to spell their way
+export interface GlossaryTerm {
+  term: string;
+  addedAt: number;
+}
+
+// An analyzed video saved on this device, reopened without a network call
+export interface LibraryEntry {
+  key: string; // platform:bvid:page
+  schemaVersion: number; // Shape of `video`; see services/libraryStore.ts
+  video: VideoData;
+  source: 'backend' | 'ai-simulated'; // How the video was analyzed
+  tags: string[];
+  addedAt: number;
+  lastOpenedAt: number;
+}
+
+export interface Note {
+  id: string;
+  platform: VideoData['platform'];
+  bvid: string;
+  page?: number; // Bilibili part the timestamp refers to
+  timestamp: number; // in seconds
+  text: string;
+  quote?: string; // Transcript passage the note was taken from
+  createdAt: number;
+  updatedAt: number;
+}
+
+// SM-2 scheduling state of a study card
+export interface ReviewState {
+  repetitions: number; // Successful reviews in a row
+  interval: number; // Days until the next review
+  easeFactor: number;
+  dueAt: number; // Epoch ms
+  lastReviewedAt?: number;
+}
+
+// A quiz question or flashcard generated for one highlight chapter
+export interface StudyCard extends ReviewState {
+  id: string;
+  platform: 'bilibili' | 'youtube';
+  bvid: string;
+  page?: number;
+  chapterId: string;
+  chapterTitle: string;
+  kind: 'quiz' | 'flashcard';
+  front: string; // Question or prompt
+  back: string; // Answer, or the explanation for quiz questions
+  options?: string[]; // Quiz only
+  answerIndex?: number; // Quiz only
+  timestamp: number; // Where the video explains the answer
+  createdAt: number;
+}
@@ -0,0 +1,35 @@
+import { TranscriptSegment } from '../types';
+import { findActiveIndex } from './time';
+
+// Tracks are segmented independently, so a line that starts a hair before
+// the matching primary line should still pair with it
+const ALIGN_TOLERANCE_SECONDS = 0.5;
+
+export interface AlignedSegment {
+  segment: TranscriptSegment;
+  secondaryText: string;
+}
+
+/**
+ * Pairs each primary segment with the secondary-track text spoken during it.
+ * A secondary segment belongs to the primary segment that was playing when it
+ * started; anything before the first primary segment joins the first one.
+ */
+export const alignTracks = (primary: TranscriptSegment[], secondary: TranscriptSegment[]): AlignedSegment[] => {
+  const sortedPrimary = [...primary].sort((a, b) => a.startTime - b.startTime);
+  const buckets: string[][] = sortedPrimary.map(() => []);
+
+  if (sortedPrimary.length > 0) {
+    [...secondary]
+      .sort((a, b) => a.startTime - b.startTime)
+      .forEach(segment => {
+        const index = Math.max(0, findActiveIndex(sortedPrimary, segment.startTime + ALIGN_TOLERANCE_SECONDS));
+        buckets[index].push(segment.text.trim());
+      });
+  }
+
+  return sortedPrimary.map((segment, index) => ({
+    segment,
+    secondaryText: buckets[index].join(' '),
+  }));
+};
@@ -0,0 +1,18 @@
+/** Saves `content` as a file through a temporary object URL. */
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Downloads a file the server already serves (with Content-Disposition: attachment). */
+export const downloadUrl = (url: string, filename: string) => {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+};
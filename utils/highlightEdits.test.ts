@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import { Highlight, HighlightEdit } from '../types';
+import {
+  HIGHLIGHT_COLORS,
+  applyHighlightEdits,
+  boundariesOf,
+  createHighlight,
+  mergeWithNext,
+  moveBoundary,
+  recordEdits,
+  splitHighlight,
+} from './highlightEdits';
+
+const chapter = (id: string, startTime: number, endTime: number, title = id, color = HIGHLIGHT_COLORS[0]): Highlight => ({
+  id,
+  title,
+  startTime,
+  endTime,
+  color,
+  description: '',
+});
+
+const generated = [
+  chapter('chapter-1', 0, 60, 'Intro', HIGHLIGHT_COLORS[0]),
+  chapter('chapter-2', 60, 120, 'Main', HIGHLIGHT_COLORS[1]),
+  chapter('chapter-3', 120, 180, 'Outro', HIGHLIGHT_COLORS[2]),
+];
+
+const ranges = (highlights: Highlight[]) => highlights.map(h => [h.id, h.startTime, h.endTime]);
+
+// Records `change` against `generated` and returns what is displayed afterwards
+const edit = (edits: HighlightEdit[], change: Parameters<typeof recordEdits>[2]) => {
+  const next = recordEdits(edits, generated, change);
+  return { edits: next, shown: applyHighlightEdits(generated, next) };
+};
+
+describe('applyHighlightEdits', () => {
+  it('shows the generated chapters in time order without edits', () => {
+    expect(applyHighlightEdits([...generated].reverse(), [])).toEqual(generated);
+  });
+
+  it('trims generated chapters around a user chapter and drops those it covers', () => {
+    const edits = [{ id: 'user-1', highlight: chapter('user-1', 55, 125) }];
+    expect(ranges(applyHighlightEdits(generated, edits))).toEqual([
+      ['chapter-1', 0, 55],
+      ['user-1', 55, 125],
+      ['chapter-3', 125, 180],
+    ]);
+  });
+});
+
+describe('recordEdits', () => {
+  it('keeps the edited chapter under its own id', () => {
+    const { edits, shown } = edit([], { updated: [{ ...generated[1], title: 'My main' }], removed: [] });
+
+    expect(edits).toEqual([{
+      id: 'chapter-2',
+      base: { title: 'Main', startTime: 60, endTime: 120 },
+      highlight: { ...generated[1], title: 'My main' },
+    }]);
+    expect(shown.map(h => h.title)).toEqual(['Intro', 'My main', 'Outro']);
+  });
+
+  it('remembers deleted generated chapters and forgets deleted user chapters', () => {
+    const deleted = edit([], { updated: [], removed: ['chapter-3'] });
+    expect(ranges(deleted.shown)).toEqual([['chapter-1', 0, 60], ['chapter-2', 60, 120]]);
+
+    const created = edit([], { updated: [chapter('user-1', 150, 170)], removed: [] });
+    expect(edit(created.edits, { updated: [], removed: ['user-1'] }).edits).toEqual([]);
+  });
+});
+
+describe('edits after a re-analysis', () => {
+  const { edits } = edit([], { updated: [{ ...generated[1], title: 'My main' }], removed: ['chapter-3'] });
+
+  it('keeps an edit whose chapter changed as a user chapter with a derived id', () => {
+    const reanalyzed = [
+      chapter('chapter-1', 0, 50, 'Opening'),
+      chapter('chapter-2', 50, 100, 'Topic'),
+      chapter('chapter-3', 100, 180, 'Ending'),
+    ];
+    const shown = applyHighlightEdits(reanalyzed, edits);
+
+    expect(ranges(shown)).toEqual([
+      ['chapter-1', 0, 50],
+      ['chapter-2', 50, 60],
+      ['chapter-2:edited', 60, 120],
+      ['chapter-3', 120, 180],
+    ]);
+    expect(shown[2].title).toBe('My main');
+    // The deletion was of the old chapter-3; the new one is shown, trimmed around the edit
+    expect(shown[3].title).toBe('Ending');
+  });
+
+  it('records further changes to a derived id on the original edit', () => {
+    const reanalyzed = [chapter('chapter-2', 50, 100, 'Topic')];
+    const shown = applyHighlightEdits(reanalyzed, edits);
+    const outdated = shown.find(h => h.id === 'chapter-2:edited')!;
+
+    const next = recordEdits(edits, reanalyzed, { updated: [{ ...outdated, title: 'Renamed' }], removed: [] });
+
+    expect(next).toHaveLength(edits.length);
+    expect(next[0].highlight).toMatchObject({ id: 'chapter-2', title: 'Renamed' });
+    expect(applyHighlightEdits(reanalyzed, next).find(h => h.id === 'chapter-2:edited')!.title).toBe('Renamed');
+  });
+
+  it('keeps an edit whose chapter was removed under the original id', () => {
+    const reanalyzed = [chapter('chapter-1', 0, 90, 'First'), chapter('chapter-4', 90, 180, 'Second')];
+
+    expect(ranges(applyHighlightEdits(reanalyzed, edits))).toEqual([
+      ['chapter-1', 0, 60],
+      ['chapter-2', 60, 120],
+      ['chapter-4', 120, 180],
+    ]);
+  });
+});
+
+describe('moveBoundary', () => {
+  const shared = boundariesOf(generated)[1];
+
+  it('moves the edge shared by two chapters', () => {
+    expect(shared).toEqual({ time: 60, leftId: 'chapter-1', rightId: 'chapter-2' });
+
+    const { shown } = edit([], moveBoundary(generated, shared, 44.6, 180));
+    expect(ranges(shown)).toEqual([['chapter-1', 0, 45], ['chapter-2', 45, 120], ['chapter-3', 120, 180]]);
+  });
+
+  it('stops a second before either chapter would vanish', () => {
+    expect(moveBoundary(generated, shared, 500, 180).updated.map(h => [h.startTime, h.endTime])).toEqual([[0, 119], [119, 120]]);
+    expect(moveBoundary(generated, shared, -5, 180).updated.map(h => [h.startTime, h.endTime])).toEqual([[0, 1], [1, 120]]);
+  });
+
+  it('keeps a free edge between its neighbours and the video', () => {
+    const gap = [chapter('a', 0, 30), chapter('b', 60, 90)];
+    const start = boundariesOf(gap).find(b => b.time === 60)!;
+
+    expect(moveBoundary(gap, start, 10, 100).updated).toEqual([{ ...gap[1], startTime: 30 }]);
+  });
+});
+
+describe('splitHighlight', () => {
+  it('splits at the given time, giving the second half a new id', () => {
+    const [first, second] = splitHighlight(generated[1], 90.4).updated;
+
+    expect(first).toEqual({ ...generated[1], endTime: 90 });
+    expect(second).toMatchObject({ title: 'Main (2)', startTime: 90, endTime: 120 });
+    expect(second.id).not.toBe('chapter-2');
+  });
+
+  it('splits in the middle when the time is too close to an edge', () => {
+    expect(splitHighlight(generated[1], 60.5).updated.map(h => h.startTime)).toEqual([60, 90]);
+  });
+});
+
+describe('mergeWithNext', () => {
+  it('extends the chapter over the next one', () => {
+    const change = mergeWithNext(generated, 'chapter-1');
+
+    expect(change).toEqual({ updated: [{ ...generated[0], endTime: 120 }], removed: ['chapter-2'] });
+    expect(ranges(edit([], change).shown)).toEqual([['chapter-1', 0, 120], ['chapter-3', 120, 180]]);
+  });
+
+  it('does nothing for the last chapter', () => {
+    expect(mergeWithNext(generated, 'chapter-3')).toEqual({ updated: [], removed: [] });
+  });
+});
+
+describe('createHighlight', () => {
+  it('cuts the chapter it lands in around it and picks a color its neighbours lack', () => {
+    const change = createHighlight(generated, { title: 'Aside', startTime: 20, endTime: 40, duration: 180 });
+    const [created, head, tail] = change.updated;
+
+    expect(created).toMatchObject({ title: 'Aside', startTime: 20, endTime: 40, color: HIGHLIGHT_COLORS[2] });
+    expect(head).toEqual({ ...generated[0], endTime: 20 });
+    expect(tail).toMatchObject({ title: 'Intro', startTime: 40, endTime: 60 });
+    expect(new Set([created.id, head.id, tail.id]).size).toBe(3);
+    expect(edit([], change).shown.map(h => h.title)).toEqual(['Intro', 'Aside', 'Intro', 'Main', 'Outro']);
+  });
+
+  it('stops at the next chapter and replaces a chapter it covers', () => {
+    const change = createHighlight(generated, { title: 'New', startTime: 0, endTime: 90, duration: 180 });
+
+    expect(change.updated.map(h => [h.title, h.startTime, h.endTime])).toEqual([['New', 0, 60]]);
+    expect(change.removed).toEqual(['chapter-1']);
+  });
+
+  it('creates nothing shorter than the minimum', () => {
+    expect(createHighlight(generated, { title: 'Late', startTime: 179.8, endTime: 200, duration: 180 }))
+      .toEqual({ updated: [], removed: [] });
+  });
+});
@@ -0,0 +1,204 @@
+import { Highlight, HighlightEdit } from '../types';
+import { PALETTE } from './palette';
+
+/**
+ * Manual chapter editing. Edits are stored apart from the generated
+ * highlights (see services/highlightStore.ts) and applied on top of them,
+ * so re-analyzing a video never throws manual work away.
+ *
+ * The operations below take the highlights as displayed and return the
+ * highlights they change plus the ids they remove; `recordEdits` turns that
+ * into the stored overlay.
+ */
+
+// Same palette the backend assigns to generated chapters
+export const HIGHLIGHT_COLORS = PALETTE;
+
+export const MIN_HIGHLIGHT_SECONDS = 1;
+
+export interface HighlightChange {
+  updated: Highlight[];
+  removed: string[];
+}
+
+type Base = NonNullable<HighlightEdit['base']>;
+
+const baseOf = (h: Highlight): Base => ({ title: h.title, startTime: h.startTime, endTime: h.endTime });
+
+const sameBase = (base: Base, h: Highlight) =>
+  base.title === h.title && base.startTime === h.startTime && base.endTime === h.endTime;
+
+const byStart = (a: Highlight, b: Highlight) => a.startTime - b.startTime;
+
+export const newHighlightId = () => `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// An edit whose generated chapter changed since (a re-analysis) lives on as a user chapter;
+// it gets a derived id while a new generated chapter holds the original one
+const displayIdOf = (edit: HighlightEdit, generatedById: Map<string, Highlight>) => {
+  const generated = generatedById.get(edit.id);
+  return generated && edit.base && !sameBase(edit.base, generated) ? `${edit.id}:edited` : edit.id;
+};
+
+// Largest part of `h` not covered by any of `ranges`, or null when too little is left
+const trimAround = (h: Highlight, ranges: Highlight[]): Highlight | null => {
+  let pieces = [{ startTime: h.startTime, endTime: h.endTime }];
+  ranges.forEach(r => {
+    pieces = pieces.flatMap(p => {
+      if (r.endTime <= p.startTime || r.startTime >= p.endTime) return [p];
+      return [
+        { startTime: p.startTime, endTime: r.startTime },
+        { startTime: r.endTime, endTime: p.endTime },
+      ].filter(q => q.endTime - q.startTime >= MIN_HIGHLIGHT_SECONDS);
+    });
+  });
+  if (pieces.length === 0) return null;
+  const largest = pieces.reduce((a, b) => (b.endTime - b.startTime > a.endTime - a.startTime ? b : a));
+  return { ...h, ...largest };
+};
+
+/** The generated highlights with the edits applied. Edited chapters win where they overlap generated ones. */
+export const applyHighlightEdits = (generated: Highlight[], edits: HighlightEdit[]): Highlight[] => {
+  const generatedById = new Map(generated.map(h => [h.id, h]));
+  const replaced = new Set(edits
+    .filter(e => e.base && generatedById.has(e.id) && sameBase(e.base, generatedById.get(e.id)!))
+    .map(e => e.id));
+
+  const manual = edits
+    .filter(e => e.highlight)
+    .map(e => ({ ...e.highlight!, id: displayIdOf(e, generatedById) }));
+  const remaining = generated
+    .filter(h => !replaced.has(h.id))
+    .map(h => trimAround(h, manual))
+    .filter((h): h is Highlight => h !== null);
+
+  return [...manual, ...remaining].sort(byStart);
+};
+
+/** Stores `change` (made to the displayed highlights) in the overlay. */
+export const recordEdits = (edits: HighlightEdit[], generated: Highlight[], change: HighlightChange): HighlightEdit[] => {
+  const generatedById = new Map(generated.map(h => [h.id, h]));
+  let next = [...edits];
+
+  const upsert = (displayId: string, highlight: Highlight | null) => {
+    const index = next.findIndex(e => displayIdOf(e, generatedById) === displayId);
+    if (index !== -1) {
+      const edit = next[index];
+      // Deleting a chapter the user created leaves nothing to remember
+      if (!highlight && !edit.base) next.splice(index, 1);
+      else next[index] = { ...edit, highlight: highlight && { ...highlight, id: edit.id } };
+      return;
+    }
+    const base = generatedById.get(displayId);
+    if (!base && !highlight) return;
+    next.push({ id: displayId, base: base && baseOf(base), highlight });
+  };
+
+  change.updated.forEach(h => upsert(h.id, h));
+  change.removed.forEach(id => upsert(id, null));
+  return next;
+};
+
+export interface Boundary {
+  time: number;
+  leftId?: string; // Highlight ending here
+  rightId?: string; // Highlight starting here
+}
+
+/** Draggable chapter edges; adjacent chapters share one boundary. */
+export const boundariesOf = (highlights: Highlight[]): Boundary[] => {
+  const sorted = [...highlights].sort(byStart);
+  const boundaries: Boundary[] = [];
+  sorted.forEach((h, i) => {
+    const prev = sorted[i - 1];
+    if (prev && prev.endTime === h.startTime) {
+      boundaries[boundaries.length - 1].rightId = h.id;
+    } else {
+      boundaries.push({ time: h.startTime, rightId: h.id });
+    }
+    boundaries.push({ time: h.endTime, leftId: h.id });
+  });
+  return boundaries;
+};
+
+/** Moves a boundary to `time`, clamped so no chapter shrinks below the minimum or runs into another. */
+export const moveBoundary = (highlights: Highlight[], boundary: Boundary, time: number, duration: number): HighlightChange => {
+  const sorted = [...highlights].sort(byStart);
+  const left = sorted.find(h => h.id === boundary.leftId);
+  const right = sorted.find(h => h.id === boundary.rightId);
+
+  const lower = left
+    ? left.startTime + MIN_HIGHLIGHT_SECONDS
+    : Math.max(0, ...sorted.filter(h => h.endTime <= boundary.time).map(h => h.endTime));
+  const upper = right
+    ? right.endTime - MIN_HIGHLIGHT_SECONDS
+    : Math.min(duration, ...sorted.filter(h => h.startTime >= boundary.time).map(h => h.startTime));
+  const clamped = Math.round(Math.min(upper, Math.max(lower, time)));
+
+  const updated: Highlight[] = [];
+  if (left) updated.push({ ...left, endTime: clamped });
+  if (right) updated.push({ ...right, startTime: clamped });
+  return { updated, removed: [] };
+};
+
+/** Splits a chapter at `time`, or in the middle when `time` is too close to an edge. */
+export const splitHighlight = (highlight: Highlight, time: number): HighlightChange => {
+  const { startTime, endTime } = highlight;
+  const at = time - startTime >= MIN_HIGHLIGHT_SECONDS && endTime - time >= MIN_HIGHLIGHT_SECONDS
+    ? Math.round(time)
+    : Math.round((startTime + endTime) / 2);
+  return {
+    updated: [
+      { ...highlight, endTime: at },
+      { ...highlight, id: newHighlightId(), title: `${highlight.title} (2)`, startTime: at },
+    ],
+    removed: [],
+  };
+};
+
+/** Merges a chapter with the one after it, keeping the first one's title and color. */
+export const mergeWithNext = (highlights: Highlight[], id: string): HighlightChange => {
+  const sorted = [...highlights].sort(byStart);
+  const index = sorted.findIndex(h => h.id === id);
+  const first = sorted[index];
+  const second = sorted[index + 1];
+  if (!first || !second) return { updated: [], removed: [] };
+  return {
+    updated: [{ ...first, endTime: Math.max(first.endTime, second.endTime) }],
+    removed: [second.id],
+  };
+};
+
+/**
+ * A new chapter over `[startTime, endTime]`, stopping where the next chapter
+ * begins. A chapter it lands inside is cut around it.
+ */
+export const createHighlight = (
+  highlights: Highlight[],
+  { title, startTime, endTime, duration }: { title: string; startTime: number; endTime: number; duration: number }
+): HighlightChange => {
+  const sorted = [...highlights].sort(byStart);
+  const start = Math.max(0, Math.round(startTime));
+  const containing = sorted.find(h => h.startTime <= start && h.endTime > start);
+  const next = sorted.find(h => h.startTime > start);
+  const end = Math.min(Math.round(endTime), duration, next ? next.startTime : Infinity);
+  if (end - start < MIN_HIGHLIGHT_SECONDS) return { updated: [], removed: [] };
+
+  // A color its neighbours don't use
+  const neighbourColors = new Set([containing?.color, next?.color]);
+  const color = HIGHLIGHT_COLORS.find(c => !neighbourColors.has(c)) ?? HIGHLIGHT_COLORS[0];
+
+  const change: HighlightChange = {
+    updated: [{ id: newHighlightId(), title, startTime: start, endTime: end, color, description: '' }],
+    removed: [],
+  };
+  if (containing) {
+    const head = start - containing.startTime >= MIN_HIGHLIGHT_SECONDS ? { ...containing, endTime: start } : null;
+    const tail = containing.endTime - end >= MIN_HIGHLIGHT_SECONDS
+      ? { ...containing, id: head ? newHighlightId() : containing.id, startTime: end }
+      : null;
+    if (head) change.updated.push(head);
+    if (tail) change.updated.push(tail);
+    if (!head && !tail) change.removed.push(containing.id);
+  }
+  return change;
+};
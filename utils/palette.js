@@ -0,0 +1,8 @@
+/**
+ * Chapter colors shared by the backend (server/chapters.js) and the chapter
+ * editor (utils/highlightEdits.ts). Plain JavaScript so the backend can
+ * import it without a build step.
+ */
+
+/** Pastel colors that read well behind the Timeline playhead; neighbours always differ. */
+export const PALETTE = ['#FCA5A5', '#FDBA74', '#FDE68A', '#A7F3D0', '#99F6E4', '#BAE6FD', '#C4B5FD', '#F9A8D4'];
@@ -0,0 +1,84 @@
+import { TranscriptSegment } from '../types';
+import { CJK, tokenize as tokenizeAll } from './tokenize';
+
+/**
+ * Transcript search shared by the in-video search bar and the library.
+ *
+ * Chinese and Japanese have no spaces between words, so CJK runs are split
+ * into overlapping bigrams (utils/tokenize.js, shared with the backend
+ * retriever) and a query matches when most of its bigrams occur in a segment,
+ * even when the wording differs slightly ("深度学习模型" still finds "深度学习的模型").
+ * Other scripts are split into words, which match as prefixes.
+ */
+
+// Share of the query tokens a segment must contain when the query has more than two
+const MIN_COVERAGE = 0.75;
+
+export interface TextRange {
+  start: number;
+  end: number; // Exclusive
+}
+
+export interface SegmentMatch {
+  index: number; // Position of the segment in the transcript
+  segment: TranscriptSegment;
+  score: number; // Higher is better; exact phrase matches score above 1
+  ranges: TextRange[]; // Matched text, for highlighting
+}
+
+/** Distinct query/segment tokens (see utils/tokenize.js). */
+export const tokenize = (text: string): string[] => [...new Set(tokenizeAll(text))];
+
+const occurrences = (haystack: string, needle: string): TextRange[] => {
+  const ranges: TextRange[] = [];
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + 1)) {
+    ranges.push({ start: at, end: at + needle.length });
+  }
+  return ranges;
+};
+
+// Where a query token occurs: CJK anywhere in the text, other words at a word start
+const tokenRanges = (lower: string, token: string): TextRange[] => {
+  const ranges = occurrences(lower, token);
+  if (CJK.test(token)) return ranges;
+  return ranges.filter(r => r.start === 0 || !/[\p{L}\p{N}]/u.test(lower[r.start - 1]) || CJK.test(lower[r.start - 1]));
+};
+
+/** Sorted, non-overlapping ranges. */
+export const mergeRanges = (ranges: TextRange[]): TextRange[] =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce<TextRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+      else merged.push({ ...range });
+      return merged;
+    }, []);
+
+/** Scores `text` against a query; null when it doesn't match. */
+export const matchText = (text: string, query: string): Omit<SegmentMatch, 'index' | 'segment'> | null => {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return null;
+  const lower = text.toLowerCase();
+
+  const ranges: TextRange[] = [];
+  let matched = 0;
+  tokens.forEach(token => {
+    const found = tokenRanges(lower, token);
+    if (found.length > 0) matched++;
+    ranges.push(...found);
+  });
+
+  const coverage = matched / tokens.length;
+  if (coverage < (tokens.length > 2 ? MIN_COVERAGE : 1)) return null;
+
+  const phrase = occurrences(lower, query.trim().toLowerCase());
+  return { score: coverage + (phrase.length > 0 ? 1 : 0), ranges: mergeRanges([...ranges, ...phrase]) };
+};
+
+/** Matching segments in transcript order. */
+export const searchTranscript = (transcript: TranscriptSegment[], query: string): SegmentMatch[] =>
+  transcript.flatMap((segment, index) => {
+    const match = matchText(segment.text, query);
+    return match ? [{ index, segment, ...match }] : [];
+  });
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { GRADES, Grade, newReviewState, previewInterval, review } from './sm2';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const reviewAll = (grades: Grade[]) =>
+  grades.reduce((state, grade) => review(state, grade, 0), newReviewState(0));
+
+describe('review', () => {
+  it('schedules 1 day, then 6 days, then the previous interval times the ease factor', () => {
+    const first = review(newReviewState(0), GRADES.GOOD, 0);
+    expect(first).toMatchObject({ repetitions: 1, interval: 1, dueAt: DAY_MS, lastReviewedAt: 0 });
+
+    const second = review(first, GRADES.GOOD, 0);
+    expect(second).toMatchObject({ repetitions: 2, interval: 6 });
+
+    const third = review(second, GRADES.GOOD, 0);
+    expect(third.interval).toBe(Math.round(6 * second.easeFactor));
+    expect(third.dueAt).toBe(third.interval * DAY_MS);
+  });
+
+  it('moves the ease factor with the grade', () => {
+    expect(review(newReviewState(0), GRADES.EASY, 0).easeFactor).toBeCloseTo(2.6);
+    expect(review(newReviewState(0), GRADES.GOOD, 0).easeFactor).toBeCloseTo(2.5);
+    expect(review(newReviewState(0), GRADES.HARD, 0).easeFactor).toBeCloseTo(2.36);
+  });
+
+  it('never lets the ease factor drop below 1.3', () => {
+    const state = reviewAll([GRADES.AGAIN, GRADES.AGAIN, GRADES.AGAIN, GRADES.AGAIN, GRADES.AGAIN]);
+    expect(state.easeFactor).toBe(1.3);
+    expect(review(state, GRADES.HARD, 0).easeFactor).toBe(1.3);
+  });
+
+  it('starts a forgotten card over and makes it due right away', () => {
+    const learned = reviewAll([GRADES.GOOD, GRADES.GOOD, GRADES.GOOD]);
+    const forgotten = review(learned, GRADES.AGAIN, 5000);
+
+    expect(forgotten).toMatchObject({ repetitions: 0, interval: 0, dueAt: 5000, lastReviewedAt: 5000 });
+    expect(forgotten.easeFactor).toBeLessThan(learned.easeFactor);
+    expect(review(forgotten, GRADES.GOOD, 0).interval).toBe(1);
+  });
+
+  it('keeps the other fields of the card', () => {
+    const card = { ...newReviewState(0), id: 'c1', front: 'Q' };
+    expect(review(card, GRADES.GOOD, 0)).toMatchObject({ id: 'c1', front: 'Q' });
+  });
+});
+
+describe('previewInterval', () => {
+  it('matches what review then schedules', () => {
+    const states = [newReviewState(0), reviewAll([GRADES.GOOD]), reviewAll([GRADES.GOOD, GRADES.EASY, GRADES.HARD])];
+    states.forEach(state => {
+      Object.values(GRADES).forEach(grade => {
+        const { interval } = review(state, grade, 123);
+        expect(previewInterval(state, grade)).toBe(interval === 0 ? 'now' : `${interval}d`);
+      });
+    });
+    expect(previewInterval(newReviewState(0), GRADES.AGAIN)).toBe('now');
+    expect(previewInterval(reviewAll([GRADES.GOOD]), GRADES.GOOD)).toBe('6d');
+  });
+});
@@ -0,0 +1,44 @@
+import { ReviewState } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+/** Review grades, on SM-2's 0-5 quality scale. Below 3 counts as forgotten. */
+export const GRADES = {
+  AGAIN: 1,
+  HARD: 3,
+  GOOD: 4,
+  EASY: 5,
+} as const;
+
+export type Grade = typeof GRADES[keyof typeof GRADES];
+
+export const newReviewState = (now = Date.now()): ReviewState => ({
+  repetitions: 0,
+  interval: 0,
+  easeFactor: 2.5,
+  dueAt: now,
+});
+
+/**
+ * SM-2: a forgotten card starts over and comes back right away; a remembered
+ * one is due again after 1 day, then 6 days, then the previous interval
+ * times its ease factor. The ease factor moves with how hard the recall was.
+ */
+export const review = <T extends ReviewState>(state: T, quality: Grade, now = Date.now()): T => {
+  const easeFactor = Math.max(MIN_EASE, state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    return { ...state, repetitions: 0, interval: 0, easeFactor, dueAt: now, lastReviewedAt: now };
+  }
+
+  const repetitions = state.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.interval * state.easeFactor);
+  return { ...state, repetitions, interval, easeFactor, dueAt: now + interval * DAY_MS, lastReviewedAt: now };
+};
+
+/** Human-readable delay until a card graded `quality` would be due again, e.g. "6d". */
+export const previewInterval = (state: ReviewState, quality: Grade): string => {
+  const { interval } = review(state, quality, 0);
+  return interval === 0 ? 'now' : `${interval}d`;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Highlight, TranscriptSegment, VideoSummary } from '../types';
+import { anchorSummary, isSummaryOutdated, transcriptFingerprint } from './summaryAnchors';
+
+const chapter = (id: string, startTime: number, endTime: number, title = id): Highlight => ({
+  id, title, startTime, endTime, color: `#${id}`,
+});
+
+const transcript: TranscriptSegment[] = [
+  { id: 's1', text: 'Hello', timestamp: '0:00', startTime: 0 },
+  { id: 's2', text: 'World', timestamp: '1:00', startTime: 60 },
+];
+
+const highlights = [chapter('a', 0, 60), chapter('b', 60, 120)];
+
+const summary: VideoSummary = {
+  tldr: 'Short',
+  chapters: [
+    { chapterId: 'a', title: 'a', startTime: 0, endTime: 60, summary: 'About a' },
+    { chapterId: 'b', title: 'b', startTime: 60, endTime: 120, summary: 'About b' },
+  ],
+  keyTerms: [],
+  transcriptFingerprint: transcriptFingerprint(transcript),
+};
+
+describe('transcriptFingerprint', () => {
+  it('changes when a segment is corrected', () => {
+    const corrected = [transcript[0], { ...transcript[1], text: 'Word' }];
+    expect(transcriptFingerprint(corrected)).not.toBe(transcriptFingerprint(transcript));
+    expect(transcriptFingerprint([...transcript])).toBe(transcriptFingerprint(transcript));
+  });
+});
+
+describe('anchorSummary', () => {
+  it('shows each section under its own chapter', () => {
+    const sections = anchorSummary(summary, highlights);
+    expect(sections.map(s => [s.title, s.color, s.isChanged])).toEqual([['a', '#a', false], ['b', '#b', false]]);
+  });
+
+  it('follows renamed and moved chapters and marks them changed', () => {
+    const sections = anchorSummary(summary, [chapter('a', 0, 50, 'Intro'), chapter('b', 50, 120)]);
+    expect(sections.map(s => [s.title, s.startTime, s.isChanged])).toEqual([['Intro', 0, true], ['b', 50, true]]);
+  });
+
+  it('keeps sections whose chapter was merged away, under the chapter covering their range', () => {
+    const sections = anchorSummary(summary, [chapter('a', 0, 120)]);
+    expect(sections).toHaveLength(2);
+    expect(sections[1]).toMatchObject({ chapterId: 'b', title: 'b', startTime: 60, color: '#a', isChanged: true });
+  });
+
+  it('keeps sections whose chapter was deleted, without a chapter color', () => {
+    const sections = anchorSummary(summary, []);
+    expect(sections.map(s => [s.title, s.color])).toEqual([['a', undefined], ['b', undefined]]);
+  });
+
+  it('drops sections of older summaries without a stored range once their chapter is gone', () => {
+    const legacy: VideoSummary = { ...summary, chapters: [{ chapterId: 'a', summary: 'About a' }] };
+    expect(anchorSummary(legacy, highlights)).toHaveLength(1);
+    expect(anchorSummary(legacy, [])).toEqual([]);
+  });
+});
+
+describe('isSummaryOutdated', () => {
+  it('is false while chapters and transcript are unchanged', () => {
+    expect(isSummaryOutdated(summary, { highlights, transcript })).toBe(false);
+  });
+
+  it('is true after a transcript correction', () => {
+    const corrected = [{ ...transcript[0], text: 'Hallo' }, transcript[1]];
+    expect(isSummaryOutdated(summary, { highlights, transcript: corrected })).toBe(true);
+  });
+
+  it('is true after chapters are edited, split or deleted', () => {
+    expect(isSummaryOutdated(summary, { highlights: [chapter('a', 0, 60, 'Renamed'), highlights[1]], transcript })).toBe(true);
+    expect(isSummaryOutdated(summary, { highlights: [...highlights, chapter('c', 120, 130)], transcript })).toBe(true);
+    expect(isSummaryOutdated(summary, { highlights: [highlights[0]], transcript })).toBe(true);
+  });
+
+  it('is true when chapters were added to a video summarized without any', () => {
+    const whole: VideoSummary = { ...summary, chapters: [] };
+    expect(isSummaryOutdated(whole, { highlights: [], transcript })).toBe(false);
+    expect(isSummaryOutdated(whole, { highlights, transcript })).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import { ChapterSummary, Highlight, TranscriptSegment, VideoSummary } from '../types';
+
+/**
+ * Keeps a generated summary usable after the chapters or the transcript
+ * change (manual chapter edits, transcript corrections).
+ *
+ * Chapter summaries remember the range they were written for. Each one is
+ * shown under its own chapter when that still exists, otherwise under the
+ * chapter that now covers most of its range, otherwise on its own. Nothing
+ * is dropped; the panel flags the summary as outdated instead.
+ */
+
+export interface SummarySection {
+  chapterId: string;
+  summary: string;
+  title: string;
+  startTime: number;
+  endTime: number;
+  color?: string; // Of the chapter it is shown under
+  isChanged: boolean; // The chapter it was written for was edited, merged, split or deleted
+}
+
+/** Short hash of the segment times and text, to tell whether a transcript changed. */
+export const transcriptFingerprint = (transcript: TranscriptSegment[]): string => {
+  let h = 0;
+  transcript.forEach(segment => {
+    const line = `${segment.startTime}\u0000${segment.text}\u0001`;
+    for (let i = 0; i < line.length; i++) h = (Math.imul(h, 31) + line.charCodeAt(i)) >>> 0;
+  });
+  return `${transcript.length}:${h.toString(36)}`;
+};
+
+const overlap = (a: { startTime: number; endTime: number }, b: { startTime: number; endTime: number }) =>
+  Math.max(0, Math.min(a.endTime, b.endTime) - Math.max(a.startTime, b.startTime));
+
+// Summaries generated before ranges were stored only know their chapter id
+const hasRange = (c: ChapterSummary): c is ChapterSummary & { startTime: number; endTime: number } =>
+  typeof c.startTime === 'number' && typeof c.endTime === 'number';
+
+const matchesChapter = (c: ChapterSummary, h: Highlight) =>
+  !hasRange(c) || (c.startTime === h.startTime && c.endTime === h.endTime && (c.title ?? h.title) === h.title);
+
+const anchorOf = (c: ChapterSummary, highlights: Highlight[]): Highlight | null => {
+  const own = highlights.find(h => h.id === c.chapterId);
+  if (own && (!hasRange(c) || overlap(c, own) > 0)) return own;
+  if (!hasRange(c)) return null;
+  return highlights.reduce<Highlight | null>((best, h) => (overlap(c, h) > (best ? overlap(c, best) : 0) ? h : best), null);
+};
+
+/** The chapter summaries placed against the current chapters, in time order. */
+export const anchorSummary = (summary: VideoSummary, highlights: Highlight[]): SummarySection[] =>
+  summary.chapters
+    .filter(c => c.summary)
+    .map((c): SummarySection | null => {
+      const anchor = anchorOf(c, highlights);
+      const own = anchor?.id === c.chapterId ? anchor : null;
+      if (!anchor && !hasRange(c)) return null;
+      return {
+        chapterId: c.chapterId,
+        summary: c.summary,
+        title: own?.title ?? c.title ?? anchor!.title,
+        startTime: own?.startTime ?? (hasRange(c) ? c.startTime : anchor!.startTime),
+        endTime: own?.endTime ?? (hasRange(c) ? c.endTime : anchor!.endTime),
+        color: anchor?.color,
+        isChanged: !own || !matchesChapter(c, own),
+      };
+    })
+    .filter((s): s is SummarySection => s !== null)
+    .sort((a, b) => a.startTime - b.startTime);
+
+/**
+ * True when the chapters or the transcript differ from the ones the summary
+ * was written from. Summaries without a fingerprint are only checked against the chapters.
+ */
+export const isSummaryOutdated = (
+  summary: VideoSummary,
+  video: { highlights: Highlight[]; transcript: TranscriptSegment[] }
+): boolean => {
+  if (summary.transcriptFingerprint && summary.transcriptFingerprint !== transcriptFingerprint(video.transcript)) {
+    return true;
+  }
+  // Summarized without chapters; any chapter added since has no summary
+  if (summary.chapters.length === 0) return video.highlights.length > 0;
+
+  const summarized = new Set(summary.chapters.map(c => c.chapterId));
+  const sections = anchorSummary(summary, video.highlights);
+  return video.highlights.some(h => !summarized.has(h.id))
+    || sections.some(s => s.isChanged)
+    || sections.length < summary.chapters.filter(c => c.summary).length;
+};
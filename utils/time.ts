@@ -0,0 +1,34 @@
+/** Formats seconds as `m:ss`. */
+export const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+/** Parses `m:ss` or `h:mm:ss` into seconds. Returns null for anything else. */
+export const parseTime = (text: string): number | null => {
+  const match = text.trim().match(/^(?:(\d+):)?(\d+):([0-5]\d)$/);
+  if (!match) return null;
+  const [, h, m, s] = match;
+  return (h ? parseInt(h, 10) * 3600 : 0) + parseInt(m, 10) * 60 + parseInt(s, 10);
+};
+
+/**
+ * Returns the index of the last item that started at or before `time`,
+ * or -1 if playback hasn't reached the first one yet. Items must be sorted by startTime.
+ */
+export const findActiveIndex = (items: { startTime: number }[], time: number) => {
+  let lo = 0;
+  let hi = items.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (items[mid].startTime <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
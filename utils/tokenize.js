@@ -0,0 +1,37 @@
+/**
+ * Word tokenizer shared by the backend retriever (server/retrieval.js) and
+ * transcript search (utils/search.ts). Plain JavaScript so the backend can
+ * import it without a build step.
+ */
+
+export const CJK = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/;
+
+/**
+ * Lowercased word tokens, in order and with repeats. CJK text has no spaces,
+ * so runs of CJK characters become overlapping bigrams ("机器学习" -> 机器,
+ * 器学, 学习); a lone CJK character is kept as a unigram.
+ *
+ * @param {string} text
+ * @returns {string[]}
+ */
+export function tokenize(text) {
+  const tokens = [];
+  const runs = String(text).toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  runs.forEach(run => {
+    let latin = '';
+    let cjk = '';
+    const flushLatin = () => { if (latin) tokens.push(latin); latin = ''; };
+    const flushCjk = () => {
+      if (cjk.length === 1) tokens.push(cjk);
+      for (let i = 0; i < cjk.length - 1; i++) tokens.push(cjk.slice(i, i + 2));
+      cjk = '';
+    };
+    for (const char of run) {
+      if (CJK.test(char)) { flushLatin(); cjk += char; }
+      else { flushCjk(); latin += char; }
+    }
+    flushLatin();
+    flushCjk();
+  });
+  return tokens;
+}
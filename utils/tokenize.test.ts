@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { tokenize } from './tokenize';
+import { tokenize as searchTokens } from './search';
+
+describe('tokenize', () => {
+  it('lowercases words and splits CJK runs into bigrams', () => {
+    expect(tokenize('Deep 机器学习 is 好')).toEqual(['deep', '机器', '器学', '学习', 'is', '好']);
+  });
+
+  it('splits mixed runs at script boundaries', () => {
+    expect(tokenize('GPT模型v2')).toEqual(['gpt', '模型', 'v2']);
+    expect(tokenize('かなカナ한국어')).toEqual(['かな', 'なカ', 'カナ', 'ナ한', '한국', '국어']);
+  });
+
+  it('drops punctuation and keeps repeats for term frequencies', () => {
+    expect(tokenize('Loss, loss... LOSS!')).toEqual(['loss', 'loss', 'loss']);
+    expect(tokenize('——')).toEqual([]);
+  });
+});
+
+describe('search tokens', () => {
+  it('are the shared tokens without repeats', () => {
+    const text = 'Loss 学习学习 loss';
+    expect(searchTokens(text)).toEqual([...new Set(tokenize(text))]);
+    expect(searchTokens(text)).toEqual(['loss', '学习', '习学']);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { countMatches, isSameTranscript, mergeSegmentWithNext, replaceAll, splitSegment, updateSegment } from './transcriptEdits';
+
+const original: TranscriptSegment[] = [
+  { id: 'a', text: 'Hello wrld', timestamp: '0:00', startTime: 0 },
+  { id: 'b', text: 'Second line', timestamp: '0:05', startTime: 5 },
+];
+
+const transcript: TranscriptSegment[] = [
+  { id: 'a', text: 'Hello wrld, hello again', timestamp: '0:00', startTime: 0 },
+  { id: 'b', text: 'Second line', timestamp: '0:10', startTime: 10 },
+  { id: 'c', text: 'Third part', timestamp: '0:20', startTime: 20 },
+];
+
+describe('updateSegment', () => {
+  it('keeps a moved start between its neighbours and rounds it to tenths', () => {
+    expect(updateSegment(transcript, 'b', { startTime: 25 })[1]).toMatchObject({ startTime: 20, timestamp: '0:20' });
+    expect(updateSegment(transcript, 'b', { startTime: -3 })[1].startTime).toBe(0);
+    expect(updateSegment(transcript, 'b', { startTime: 12.345 })[1].startTime).toBe(12.3);
+  });
+
+  it('clamps the first segment at zero and lets the last one move freely', () => {
+    expect(updateSegment(transcript, 'a', { startTime: -2 })[0].startTime).toBe(0);
+    expect(updateSegment(transcript, 'c', { startTime: 500 })[2].startTime).toBe(500);
+  });
+
+  it('changes only the given segment', () => {
+    const edited = updateSegment(transcript, 'b', { text: 'Second row' });
+    expect(edited.map(s => s.text)).toEqual(['Hello wrld, hello again', 'Second row', 'Third part']);
+    expect(edited[0]).toBe(transcript[0]);
+    expect(updateSegment(transcript, 'missing', { text: 'x' })).toBe(transcript);
+  });
+});
+
+describe('splitSegment', () => {
+  it('starts the second half at the share of the time its text suggests', () => {
+    const split = splitSegment(transcript, 'b', 6, 30);
+    expect(split.map(s => [s.id, s.text, s.startTime])).toEqual([
+      ['a', 'Hello wrld, hello again', 0],
+      ['b', 'Second', 10],
+      ['b-2', 'line', 15.5],
+      ['c', 'Third part', 20],
+    ]);
+    expect(split[2].timestamp).toBe('0:15');
+  });
+
+  it('measures the last segment up to the end of the video', () => {
+    expect(splitSegment(transcript, 'c', 5, 40)[3]).toMatchObject({ text: 'part', startTime: 30 });
+  });
+
+  it('picks an id that is still free', () => {
+    const once = splitSegment(transcript, 'b', 6, 30);
+    expect(splitSegment(once, 'b', 3, 30).map(s => s.id)).toEqual(['a', 'b', 'b-3', 'b-2', 'c']);
+  });
+
+  it('leaves the transcript alone when either half would be empty', () => {
+    expect(splitSegment(transcript, 'b', 0, 30)).toBe(transcript);
+    expect(splitSegment(transcript, 'b', 11, 30)).toBe(transcript);
+  });
+});
+
+describe('replaceAll', () => {
+  it('ignores case unless asked to match it', () => {
+    expect(replaceAll(transcript, 'hello', 'Hi', { matchCase: false })[0].text).toBe('Hi wrld, Hi again');
+    expect(replaceAll(transcript, 'hello', 'Hi', { matchCase: true })[0].text).toBe('Hello wrld, Hi again');
+  });
+
+  it('treats the search and the replacement as plain text', () => {
+    expect(replaceAll(transcript, 'wrld', '$& $1', { matchCase: true })[0].text).toBe('Hello $& $1, hello again');
+    expect(countMatches(transcript, '.', { matchCase: false })).toBe(0);
+    expect(countMatches(transcript, 'HELLO', { matchCase: false })).toBe(2);
+  });
+
+  it('keeps segments without a match as they were', () => {
+    const replaced = replaceAll(transcript, 'line', 'row', { matchCase: false });
+    expect(replaced[1].text).toBe('Second row');
+    expect(replaced[0]).toBe(transcript[0]);
+    expect(replaced[2]).toBe(transcript[2]);
+    expect(replaceAll(transcript, '', 'x', { matchCase: false })).toBe(transcript);
+  });
+});
+
+describe('isSameTranscript', () => {
+  it('is true once an edit is typed back to the original text', () => {
+    const edited = updateSegment(original, 'a', { text: 'Hello world' });
+    expect(isSameTranscript(edited, original)).toBe(false);
+    expect(isSameTranscript(updateSegment(edited, 'a', { text: 'Hello wrld' }), original)).toBe(true);
+  });
+
+  it('notices changed times, merged segments and replacements', () => {
+    expect(isSameTranscript(updateSegment(original, 'b', { startTime: 4 }), original)).toBe(false);
+    expect(isSameTranscript(mergeSegmentWithNext(original, 'a'), original)).toBe(false);
+    expect(isSameTranscript(replaceAll(original, 'line', 'row', { matchCase: false }), original)).toBe(false);
+  });
+
+  it('is true once a split is merged back or a replacement is reversed', () => {
+    const split = splitSegment(original, 'b', 6, 10);
+    expect(isSameTranscript(split, original)).toBe(false);
+    expect(isSameTranscript(mergeSegmentWithNext(split, 'b'), original)).toBe(true);
+
+    const replaced = replaceAll(original, 'wrld', 'world', { matchCase: true });
+    expect(isSameTranscript(replaceAll(replaced, 'world', 'wrld', { matchCase: true }), original)).toBe(true);
+  });
+
+  it('ignores the display timestamp', () => {
+    expect(isSameTranscript(original.map(s => ({ ...s, timestamp: '' })), original)).toBe(true);
+  });
+});
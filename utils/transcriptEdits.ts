@@ -0,0 +1,123 @@
+import { TranscriptSegment } from '../types';
+import { formatTime } from './time';
+import { CJK } from './tokenize';
+
+/**
+ * Transcript correction. Every operation returns a new transcript (sorted by
+ * start time, timestamps in sync) so the editor can keep the previous ones
+ * for undo.
+ */
+
+export interface FindOptions {
+  matchCase: boolean;
+}
+
+const withTime = (segment: TranscriptSegment, startTime: number): TranscriptSegment => ({
+  ...segment,
+  startTime,
+  timestamp: formatTime(startTime),
+});
+
+// Tenths of a second, the precision transcription reports
+const roundTime = (time: number) => Math.round(time * 10) / 10;
+
+// Split segments get `<id>-<n>`, with the first n that's still free
+const freshId = (transcript: TranscriptSegment[], id: string) => {
+  const taken = new Set(transcript.map(s => s.id));
+  let n = 2;
+  while (taken.has(`${id}-${n}`)) n++;
+  return `${id}-${n}`;
+};
+
+/** Replaces a segment's text and/or start time; the start stays between its neighbours. */
+export const updateSegment = (
+  transcript: TranscriptSegment[],
+  id: string,
+  { text, startTime }: { text?: string; startTime?: number }
+): TranscriptSegment[] => {
+  const index = transcript.findIndex(s => s.id === id);
+  if (index === -1) return transcript;
+  const prev = transcript[index - 1];
+  const next = transcript[index + 1];
+
+  let segment = transcript[index];
+  if (text !== undefined) segment = { ...segment, text };
+  if (startTime !== undefined) {
+    const lower = prev ? prev.startTime : 0;
+    const upper = next ? next.startTime : Infinity;
+    segment = withTime(segment, roundTime(Math.min(upper, Math.max(lower, startTime))));
+  }
+  return transcript.map((s, i) => (i === index ? segment : s));
+};
+
+/**
+ * Splits a segment at character `offset`. The second half starts at the time
+ * that share of the text suggests, measured up to the next segment (or `duration`).
+ */
+export const splitSegment = (transcript: TranscriptSegment[], id: string, offset: number, duration: number): TranscriptSegment[] => {
+  const index = transcript.findIndex(s => s.id === id);
+  if (index === -1) return transcript;
+  const segment = transcript[index];
+  const before = segment.text.slice(0, offset).trim();
+  const after = segment.text.slice(offset).trim();
+  if (!before || !after) return transcript;
+
+  const end = transcript[index + 1]?.startTime ?? Math.max(duration, segment.startTime);
+  const splitTime = roundTime(segment.startTime + (end - segment.startTime) * (offset / segment.text.length));
+  return [
+    ...transcript.slice(0, index),
+    { ...segment, text: before },
+    withTime({ ...segment, id: freshId(transcript, segment.id), text: after }, splitTime),
+    ...transcript.slice(index + 1),
+  ];
+};
+
+/** Joins a segment with the one after it, keeping the first one's start. */
+export const mergeSegmentWithNext = (transcript: TranscriptSegment[], id: string): TranscriptSegment[] => {
+  const index = transcript.findIndex(s => s.id === id);
+  const first = transcript[index];
+  const second = transcript[index + 1];
+  if (!first || !second) return transcript;
+
+  // CJK text has no spaces between words
+  const a = first.text.trimEnd();
+  const b = second.text.trimStart();
+  const separator = CJK.test(a.slice(-1)) && CJK.test(b.charAt(0)) ? '' : ' ';
+  return [
+    ...transcript.slice(0, index),
+    { ...first, text: `${a}${separator}${b}` },
+    ...transcript.slice(index + 2),
+  ];
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findPattern = (find: string, { matchCase }: FindOptions) =>
+  new RegExp(escapeRegExp(find), matchCase ? 'g' : 'gi');
+
+/** Number of times `find` occurs in the transcript text. */
+export const countMatches = (transcript: TranscriptSegment[], find: string, options: FindOptions): number => {
+  if (!find) return 0;
+  const pattern = findPattern(find, options);
+  return transcript.reduce((count, s) => count + (s.text.match(pattern)?.length ?? 0), 0);
+};
+
+/** Replaces every occurrence of `find`; unchanged segments keep their identity. */
+export const replaceAll = (
+  transcript: TranscriptSegment[],
+  find: string,
+  replacement: string,
+  options: FindOptions
+): TranscriptSegment[] => {
+  if (!find) return transcript;
+  const pattern = findPattern(find, options);
+  return transcript.map(s => {
+    // A function keeps `$` in the replacement literal
+    const text = s.text.replace(pattern, () => replacement);
+    return text === s.text ? s : { ...s, text };
+  });
+};
+
+/** Whether two transcripts have the same segments (id, start time and text), in the same order. */
+export const isSameTranscript = (a: TranscriptSegment[], b: TranscriptSegment[]): boolean =>
+  a.length === b.length && a.every((s, i) => s.id === b[i].id && s.startTime === b[i].startTime && s.text === b[i].text);